@@ -1,6 +1,6 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI } from "@google/genai";
+import type * as Tesseract from 'tesseract.js';
 
 // --- TYPES ---
 
@@ -17,21 +17,375 @@ interface Device {
   estPurchaseDate?: string;
   activationStatus?: string; 
   rawText: string;
-  group: 'Unlocked' | 'AT&T' | 'T-Mobile/Sprint' | 'Verizon' | 'Other';
+  group: string; // Name of the first matching GroupRule, or FALLBACK_GROUP
   isActive: boolean;
+  sourceFile?: string; // Name of the uploaded HTML file this device was parsed from
+  fields: Record<string, DeviceField>; // Every "Key: Value" pair in the result block, keyed by field key
+  annotation?: DeviceAnnotation; // Our own notes, attached from the annotation store by IMEI
+}
+
+interface DeviceAnnotation {
+  imei: string;
+  grade?: string; // Cosmetic grade, e.g. "A", "B+"
+  batteryHealth?: number; // Percent
+  purchasePrice?: number;
+  salePrice?: number;
+  priceOverride?: number; // Replaces the price table value when valuing the lot
+  buyer?: string;
+  notes?: string;
+  tags: string[];
+  updatedAt: number;
+}
+
+type FieldKind = 'text' | 'date' | 'boolean';
+type FieldValue = string | boolean | null; // Dates are normalised to YYYY-MM-DD, null when unparseable
+
+interface FieldDef {
+  key: string;
+  label: string;
+  kind: FieldKind;
+  aliases?: string[];
+}
+
+interface DeviceField {
+  label: string;
+  raw: string;
+  kind: FieldKind;
+  value: FieldValue;
+}
+
+interface FieldFilter {
+  key: string;
+  text: string; // Contains-match for text fields, 'yes' | 'no' for booleans
+  from?: string; // Date range for date fields (YYYY-MM-DD)
+  to?: string;
+}
+
+interface ParseWarning {
+  chunkIndex: number; // Position of the device block (or CSV row) in the source
+  imei?: string;
+  reason: string;
+  skipped: boolean; // True when the chunk produced no device
+  missingFields?: string[];
+  unknownLabels?: string[];
+  invalidImei?: boolean; // IMEI fails the Luhn check digit
+}
+
+interface ParseResult {
+  devices: Device[];
+  warnings: ParseWarning[];
+}
+
+interface ParsedFile {
+  fileName: string;
+  format: string; // Label of the parser that read the file
+  text: string;
+  devices: Device[];
+  warnings: ParseWarning[];
+}
+
+interface SourceFile {
+  fileName: string;
+  format: string;
+  text: string;
+  count: number;
+  warnings?: ParseWarning[]; // Missing on sessions saved before diagnostics existed
+}
+
+interface MergeConflict {
+  imei: string;
+  modelDesc: string;
+  field: keyof Device;
+  values: { sourceFile: string; value: string }[];
+}
+
+interface MergeResult {
+  devices: Device[];
+  conflicts: MergeConflict[];
+  duplicateCount: number;
 }
 
 interface CarrierGroup {
   name: string;
+  color: string;
   devices: Device[];
   count: number;
 }
 
+type FacetKey = 'group' | 'icloud' | 'active' | 'simLock' | 'modelFamily' | 'storage' | 'warranty' | 'grade' | 'buyer' | 'tag';
+
+interface DeviceFilters {
+  facets: Record<FacetKey, string[]>; // Selected values per facet, empty means no restriction
+  purchaseFrom: string; // Estimated purchase date range (YYYY-MM-DD)
+  purchaseTo: string;
+  field: FieldFilter | null;
+}
+
+interface DeviceSort {
+  key: string; // Key understood by getDeviceValue, '' keeps parse order
+  dir: 'asc' | 'desc';
+}
+
+interface ExportRule {
+  field: string; // Key understood by getDeviceValue
+  op: 'is' | 'is-not' | 'contains' | 'not-contains';
+  value: string;
+}
+
+interface ExportSection {
+  id: string;
+  heading: string;
+  rules: ExportRule[]; // All must match for a device to be listed
+}
+
+interface ExportTemplate {
+  id: string;
+  name: string;
+  sections: ExportSection[];
+  lineTemplate: string; // Per-device text with {key} placeholders
+  separator: string; // Printed after every device line
+  sortBy: string; // Key understood by getDeviceValue, '' keeps parse order
+  sortDir: 'asc' | 'desc';
+}
+
+interface GroupRule {
+  id: string;
+  name: string;
+  color: string; // Hex colour used for the group badge and accordion
+  carrierPatterns: string[]; // Case-insensitive substrings of the Locked Carrier value
+  simLockPatterns: string[]; // Case-insensitive substrings of the Sim-Lock Status value
+}
+
 interface FailedImage {
   id: string;
   file: File;
   previewUrl: string;
   suggestedImei?: string; // Added to store what AI read if it wasn't found in list
+  identifiers?: ExtractedIdentifier[]; // Everything read from the photo, for highlighting
+}
+
+interface StoredSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  devices: Device[];
+  sourceFiles: SourceFile[];
+  bulkQuery: string;
+  manualFixQueue: Omit<FailedImage, 'previewUrl'>[]; // Object URLs don't survive a reload
+  reconciliation?: Reconciliation; // Missing on sessions saved before check-in existed
+}
+
+type SessionMeta = Pick<StoredSession, 'id' | 'name' | 'createdAt'>;
+
+interface BundledImage {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  data: string; // Base64 file contents
+  suggestedImei?: string;
+  identifiers?: ExtractedIdentifier[];
+}
+
+// One portable file holding everything needed to reopen an order on another machine
+interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  session: Omit<StoredSession, 'manualFixQueue'> & { manualFixQueue: BundledImage[] };
+  annotations: DeviceAnnotation[]; // Only the order's own devices
+  exportTemplate: ExportTemplate;
+}
+
+// Read-only snapshot carried in a #view= link
+interface SharedOrder {
+  name: string;
+  text: string; // Every device as a "Key: Value" block, read back with parseKeyValueText
+  annotations: DeviceAnnotation[];
+}
+
+interface CheckInScan {
+  value: string; // What was scanned or typed
+  imei?: string; // Device IMEI it resolved to, absent when it isn't in the order
+  at: number;
+  duplicate?: boolean; // Device had already been checked in
+}
+
+interface Reconciliation {
+  active: boolean;
+  startedAt: number;
+  received: Record<string, number>; // Device IMEI → first check-in timestamp
+  scans: CheckInScan[]; // Newest first
+}
+
+interface GroupTally {
+  group: string;
+  color: string;
+  expected: number;
+  received: number;
+}
+
+type DiffField = 'icloudLock' | 'simLock' | 'carrier' | 'activationStatus' | 'warrantyStatus' | 'group';
+
+interface FieldChange {
+  field: DiffField;
+  before: string;
+  after: string;
+}
+
+interface DeviceDiff {
+  imei: string;
+  status: 'changed' | 'unchanged' | 'added' | 'removed'; // added/removed: only in the current/previous order
+  before?: Device;
+  after?: Device;
+  changes: FieldChange[];
+}
+
+interface OrderComparison {
+  label: string; // Name of the previous order
+  previous: Device[];
+}
+
+// Blank keys match anything; the most specific matching row prices a device
+interface PriceRule {
+  id: string;
+  modelFamily: string; // As shown in the Model facet, e.g. "iPhone 13"
+  storage: string; // e.g. "128GB"
+  group: string; // Carrier group name
+  grade: string; // Annotation grade
+  icloud: string; // "ON" | "OFF"
+  active: string; // "Active" | "Inactive"
+  price: number;
+}
+
+interface DeviceValuation {
+  price: number | null;
+  source: 'override' | 'table' | 'none';
+}
+
+interface ValuationLine {
+  label: string;
+  color?: string;
+  count: number;
+  priced: number;
+  total: number;
+}
+
+interface DiscrepancyReport {
+  missing: Device[]; // In the order, not in the box
+  extra: CheckInScan[]; // In the box, not in the order
+  lockedReceived: Device[]; // Received but still iCloud locked
+}
+
+type ExtractionProviderId = 'local-ocr' | 'gemini';
+
+type IdentifierKind = 'imei' | 'imei2' | 'serial';
+
+interface BoundingBox {
+  x: number; // Left edge, 0-1 of the image width
+  y: number; // Top edge, 0-1 of the image height
+  width: number;
+  height: number;
+}
+
+interface ExtractedIdentifier {
+  kind: IdentifierKind;
+  value: string;
+  confidence: number; // 0-1
+  box?: BoundingBox;
+  matchedImei?: string; // Primary IMEI of the loaded device this identifier belongs to
+  matchedField?: IdentifierKind; // Which device field it matched
+}
+
+// One entry of the app server's /api/extract answer, as sent; checked before it becomes an ExtractedIdentifier
+interface RawExtractedIdentifier {
+  kind?: string;
+  value?: string;
+  box_2d?: unknown; // [ymin, xmin, ymax, xmax], scaled 0-1000
+  confidence?: number;
+}
+
+interface IdentifierHit {
+  device: Device;
+  field: IdentifierKind;
+}
+
+interface ExtractionResult {
+  identifiers: ExtractedIdentifier[]; // Best first
+  provider: ExtractionProviderId;
+}
+
+type ImageJobStatus = 'pending' | 'reading' | 'matched' | 'review' | 'error' | 'cancelled';
+
+interface ImageJob {
+  id: string;
+  file: File;
+  status: ImageJobStatus;
+  imeis?: string[]; // Matched device IMEIs, or the best unmatched read when sent to review
+  error?: string;
+}
+
+interface ImageQueue {
+  add: (files: File[]) => void;
+  retry: (ids: string[]) => void;
+  cancel: () => void;
+  clear: () => void;
+}
+
+interface SickwSettings {
+  apiUrl: string; // api.php endpoint, or the app server's /api/sickw pass-through
+  apiKey: string;
+  serviceId: string;
+}
+
+// What api.php sends back: JSON objects (or a service list) for format=json, bare text for balance and some errors
+type SickwRecord = Record<string, unknown>;
+type SickwResponse = SickwRecord | SickwRecord[] | string;
+
+interface SickwService {
+  id: string;
+  name: string;
+  price: number;
+}
+
+type CheckJobStatus = 'pending' | 'running' | 'done' | 'error' | 'cancelled';
+
+interface CheckJob {
+  id: string;
+  imei: string;
+  serviceId: string;
+  status: CheckJobStatus;
+  cost?: number; // What Sickw charged for this check
+  result?: string; // Result block as "Key: Value" lines, ready for parseKeyValueText
+  error?: string;
+}
+
+interface CheckQueue {
+  add: (imeis: string[], serviceId: string) => void;
+  retry: (ids: string[]) => void;
+  cancel: () => void;
+  clear: () => void;
+}
+
+interface ExtractionProvider {
+  id: ExtractionProviderId;
+  label: string;
+  isAvailable: () => boolean;
+  extract: (file: File, index: Map<string, IdentifierHit>, signal?: AbortSignal) => Promise<ExtractionResult>;
+}
+
+// Shape Detection API; not in TypeScript's DOM lib yet, and missing entirely in some browsers
+interface BarcodeDetector {
+  detect(image: ImageBitmapSource): Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: {
+      new (options?: { formats: string[] }): BarcodeDetector;
+      getSupportedFormats(): Promise<string[]>;
+    };
+  }
 }
 
 // --- STYLING CONSTANTS (iOS Liquid Glass) ---
@@ -41,10 +395,405 @@ const GLASS_INPUT = "bg-white/50 dark:bg-black/30 backdrop-blur-md border border
 const GLASS_BUTTON_PRIMARY = "bg-blue-600/90 hover:bg-blue-600 text-white backdrop-blur-md shadow-lg shadow-blue-500/30 rounded-xl transition-all active:scale-95";
 const GLASS_BUTTON_SECONDARY = "bg-white/50 dark:bg-white/10 hover:bg-white/80 dark:hover:bg-white/20 text-gray-800 dark:text-white border border-gray-200 dark:border-gray-700 backdrop-blur-md rounded-xl transition-all active:scale-95";
 
+// --- IMEI UTILITIES ---
+
+interface ImeiCheck {
+  imei: string; // Digits only, with the check digit appended for 14-digit input
+  valid: boolean;
+  completed: boolean; // True when the check digit was computed from 14-digit input
+  error?: string;
+}
+
+// Luhn check digit for the first 14 digits of an IMEI
+const imeiCheckDigit = (body: string): number => {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    let n = parseInt(body[i], 10);
+    if (i % 2 === 1) {
+      n *= 2;
+      if (n > 9) n -= 9;
+    }
+    sum += n;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+const isValidImei = (imei: string): boolean => {
+  return /^\d{15}$/.test(imei) && imeiCheckDigit(imei) === parseInt(imei[14], 10);
+};
+
+// Type Allocation Code: first 8 digits, identifies make and model
+const getTac = (imei: string): string => imei.replace(/\D/g, '').substring(0, 8);
+
+const checkImei = (input: string): ImeiCheck => {
+  const digits = input.replace(/\D/g, '');
+  if (digits.length === 14) {
+    return { imei: digits + imeiCheckDigit(digits), valid: true, completed: true };
+  }
+  if (digits.length !== 15) {
+    return { imei: digits, valid: false, completed: false, error: `IMEI must be 14 or 15 digits (got ${digits.length})` };
+  }
+  const expected = imeiCheckDigit(digits);
+  if (expected !== parseInt(digits[14], 10)) {
+    return { imei: digits, valid: false, completed: false, error: `Check digit should be ${expected}, a digit is probably misread` };
+  }
+  return { imei: digits, valid: true, completed: false };
+};
+
+interface NearMatch {
+  device: Device;
+  imei: string; // The device IMEI (or IMEI2) that was close to the query
+  distance: number; // Weighted edit distance, lower is closer
+  valid: boolean; // Passes the Luhn check; breaks ties between equally close candidates
+}
+
+// Digit pairs OCR and tired eyes mix up most; substituting one for the other costs half an edit
+const OCR_CONFUSIONS = ['83', '17', '08', '68', '56', '27', '49', '38', '06'];
+const NEAR_MATCH_MAX_DISTANCE = 2;
+
+const digitSubstitutionCost = (a: string, b: string): number => {
+  if (a === b) return 0;
+  return OCR_CONFUSIONS.includes(a + b) || OCR_CONFUSIONS.includes(b + a) ? 0.5 : 1;
+};
+
+// Damerau-Levenshtein (optimal string alignment) with cheaper OCR confusions and adjacent swaps
+const imeiEditDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + digitSubstitutionCost(a[i - 1], b[j - 1])
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 0.75);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Loaded devices whose IMEI is within a couple of likely misreads of the query, closest first.
+// Luhn-valid IMEIs win ties since a real IMEI is more plausible than another misread
+const findNearMatches = (query: string, devices: Device[], limit = 3): NearMatch[] => {
+  const digits = query.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 16) return [];
+  const matches: NearMatch[] = [];
+  devices.forEach(device => {
+    [device.imei, device.imei2].forEach(imei => {
+      if (!imei || imei === digits || Math.abs(imei.length - digits.length) > NEAR_MATCH_MAX_DISTANCE) return;
+      const distance = imeiEditDistance(digits, imei);
+      if (distance <= NEAR_MATCH_MAX_DISTANCE) matches.push({ device, imei, distance, valid: isValidImei(imei) });
+    });
+  });
+  const closest = new Map<string, NearMatch>();
+  matches.sort((a, b) => a.distance - b.distance || Number(b.valid) - Number(a.valid)).forEach(m => {
+    if (!closest.has(m.device.id)) closest.set(m.device.id, m);
+  });
+  return Array.from(closest.values()).slice(0, limit);
+};
+
+// --- CARRIER GROUPING ---
+
+const FALLBACK_GROUP = 'Other';
+const FALLBACK_GROUP_COLOR = '#6b7280';
+
+// Rules are checked in order, first match wins; the order is also the display order
+const DEFAULT_GROUP_RULES: GroupRule[] = [
+  { id: 'unlocked', name: 'Unlocked', color: '#10b981', carrierPatterns: ['unlock', 'open policy'], simLockPatterns: ['unlocked'] },
+  { id: 'tmobile', name: 'T-Mobile/Sprint', color: '#ec4899', carrierPatterns: ['t-mobile', 'sprint'], simLockPatterns: [] },
+  { id: 'att', name: 'AT&T', color: '#3b82f6', carrierPatterns: ['at&t'], simLockPatterns: [] },
+  { id: 'verizon', name: 'Verizon', color: '#ef4444', carrierPatterns: ['verizon'], simLockPatterns: [] }
+];
+
+const resolveGroup = (carrier: string, simLock: string, rules: GroupRule[]): string => {
+  const c = carrier.toLowerCase();
+  const s = simLock.toLowerCase();
+  const match = rules.find(rule =>
+    rule.simLockPatterns.some(p => p.trim() && s.includes(p.trim().toLowerCase())) ||
+    rule.carrierPatterns.some(p => p.trim() && c.includes(p.trim().toLowerCase()))
+  );
+  return match ? match.name : FALLBACK_GROUP;
+};
+
+// Keeps unchanged devices as the same objects so memoised views don't churn
+const applyGroupRules = (devices: Device[], rules: GroupRule[]): Device[] => {
+  return devices.map(d => {
+    const group = resolveGroup(d.carrier || '', d.simLock || '', rules);
+    return group === d.group ? d : { ...d, group };
+  });
+};
+
+const getGroupColor = (name: string, rules: GroupRule[]): string => {
+  return rules.find(r => r.name === name)?.color || FALLBACK_GROUP_COLOR;
+};
+
+const GROUP_RULES_KEY = 'sickw-group-rules';
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isGroupRule = (value: unknown): value is GroupRule => {
+  const rule = value as GroupRule;
+  return !!rule && typeof rule === 'object' && typeof rule.id === 'string' && typeof rule.name === 'string' && typeof rule.color === 'string'
+    && isStringArray(rule.carrierPatterns) && isStringArray(rule.simLockPatterns);
+};
+
+// Grouping runs on every parse, so a damaged stored value falls back to the defaults rather than breaking each upload
+const loadGroupRules = (): GroupRule[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GROUP_RULES_KEY) || 'null');
+    return Array.isArray(stored) && stored.every(isGroupRule) ? stored : DEFAULT_GROUP_RULES;
+  } catch {
+    return DEFAULT_GROUP_RULES;
+  }
+};
+
+// Buckets devices by group in rule order; empty groups are dropped
+const groupDevices = (devices: Device[], rules: GroupRule[]): CarrierGroup[] => {
+  const gMap: Record<string, Device[]> = {};
+  devices.forEach(d => {
+    if (!gMap[d.group]) gMap[d.group] = [];
+    gMap[d.group].push(d);
+  });
+  const sortOrder = Array.from(new Set([...rules.map(r => r.name), FALLBACK_GROUP, ...Object.keys(gMap)]));
+  return sortOrder
+    .map(name => ({ name, color: getGroupColor(name, rules), devices: gMap[name] || [], count: (gMap[name] || []).length }))
+    .filter(g => g.count > 0);
+};
+
 // --- PARSING LOGIC ---
 
-const parseSickwHtml = (html: string): Device[] => {
+// Sickw result fields we know how to normalise; anything else is kept as text and reported as unknown
+const FIELD_DEFS: FieldDef[] = [
+  { key: 'imei', label: 'IMEI', kind: 'text', aliases: ['IMEI1', 'IMEI 1'] },
+  { key: 'imei2', label: 'IMEI2', kind: 'text', aliases: ['IMEI 2'] },
+  { key: 'meid', label: 'MEID', kind: 'text' },
+  { key: 'serialNumber', label: 'Serial Number', kind: 'text', aliases: ['Serial'] },
+  { key: 'modelDescription', label: 'Model Description', kind: 'text', aliases: ['Model'] },
+  { key: 'modelNumber', label: 'Model Number', kind: 'text' },
+  { key: 'warrantyStatus', label: 'Warranty Status', kind: 'text' },
+  { key: 'coverageEndDate', label: 'Coverage End Date', kind: 'date' },
+  { key: 'estimatedPurchaseDate', label: 'Estimated Purchase Date', kind: 'date' },
+  { key: 'purchaseDate', label: 'Purchase Date', kind: 'date' },
+  { key: 'validPurchaseDate', label: 'Valid Purchase Date', kind: 'boolean' },
+  { key: 'purchaseCountry', label: 'Purchase Country', kind: 'text' },
+  { key: 'manufactureDate', label: 'Manufacture Date', kind: 'date' },
+  { key: 'activationStatus', label: 'Activation Status', kind: 'text' },
+  { key: 'icloudLock', label: 'iCloud Lock', kind: 'boolean' },
+  { key: 'icloudStatus', label: 'iCloud Status', kind: 'text' },
+  { key: 'findMyIphone', label: 'Find My iPhone', kind: 'boolean' },
+  { key: 'blacklistStatus', label: 'Blacklist Status', kind: 'text' },
+  { key: 'lockedCarrier', label: 'Locked Carrier', kind: 'text', aliases: ['Carrier'] },
+  { key: 'simLockStatus', label: 'Sim-Lock Status', kind: 'text', aliases: ['Sim Lock', 'SimLock'] },
+  { key: 'nextTetherPolicy', label: 'Next Tether Policy', kind: 'text' },
+  { key: 'loaner', label: 'Loaner', kind: 'boolean' },
+  { key: 'demoUnit', label: 'Demo Unit', kind: 'boolean' },
+  { key: 'refurbished', label: 'Refurbished', kind: 'boolean' },
+  { key: 'replaced', label: 'Replaced', kind: 'boolean' }
+];
+
+const FIELD_DEFS_BY_LABEL = new Map<string, FieldDef>(
+  FIELD_DEFS.flatMap(def => [def.label, ...(def.aliases ?? [])].map(l => [l.toLowerCase(), def] as [string, FieldDef]))
+);
+
+// Labels we recognise; anything else in a result block is reported as unknown
+const KNOWN_LABELS = Array.from(FIELD_DEFS_BY_LABEL.keys());
+
+// Labels every Sickw result is expected to carry
+const EXPECTED_LABELS = ['Model Description', 'Serial Number', 'iCloud Lock', 'Locked Carrier', 'Sim-Lock Status'];
+
+// Splits a result block (HTML or plain text) into trimmed "Key: Value" pairs
+const splitKeyValueLines = (text: string): [string, string][] => {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .split(/\r?\n/)
+    .map(line => {
+      const sep = line.indexOf(':');
+      return sep === -1 ? null : [line.substring(0, sep).trim(), line.substring(sep + 1).trim()] as [string, string];
+    })
+    .filter((pair): pair is [string, string] => !!pair && !!pair[0]);
+};
+
+// Normalises any result block to plain "Key: Value" lines with the IMEI line first, as parseKeyValueText reads it
+const toKeyValueText = (imei: string, text: string): string => {
+  const lines = splitKeyValueLines(text)
+    .filter(([label]) => label.toUpperCase() !== 'IMEI')
+    .map(([label, value]) => `${label}: ${value}`);
+  return [`IMEI: ${imei}`, ...lines].join('\n');
+};
+
+const toFieldKey = (label: string): string => {
+  const words = label.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  return words.map((w, i) => i === 0 ? w : w[0].toUpperCase() + w.slice(1)).join('') || 'field';
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const parseFieldDate = (raw: string): string | null => {
+  const iso = (y: string, m: number, d: string) => {
+    const day = parseInt(d, 10);
+    if (m < 1 || m > 12 || day < 1 || day > 31) return null;
+    return `${y}-${String(m).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  };
+  let m = raw.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (m) return iso(m[1], parseInt(m[2], 10), m[3]);
+  m = raw.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/); // US order, as Sickw prints it
+  if (m) return iso(m[3], parseInt(m[1], 10), m[2]);
+  m = raw.match(/\b(\d{1,2})\s+([A-Za-z]{3})[a-z]*\.?,?\s+(\d{4})\b/);
+  if (m && MONTHS.includes(m[2].toLowerCase())) return iso(m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, m[1]);
+  m = raw.match(/\b([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/);
+  if (m && MONTHS.includes(m[1].toLowerCase())) return iso(m[3], MONTHS.indexOf(m[1].toLowerCase()) + 1, m[2]);
+  return null;
+};
+
+const parseFieldBoolean = (raw: string): boolean | null => {
+  const v = raw.trim().toLowerCase();
+  if (/^(yes|on|true|y|1)\b/.test(v)) return true;
+  if (/^(no|off|false|n|0)\b/.test(v)) return false;
+  return null;
+};
+
+const buildFieldMap = (pairs: [string, string][]): Record<string, DeviceField> => {
+  const fields: Record<string, DeviceField> = {};
+  pairs.forEach(([label, raw]) => {
+    const def = FIELD_DEFS_BY_LABEL.get(label.toLowerCase());
+    const key = def ? def.key : toFieldKey(label);
+    if (key in fields) return;
+
+    const kind = def ? def.kind : 'text';
+    let value: FieldValue = raw;
+    if (kind === 'date') value = parseFieldDate(raw);
+    if (kind === 'boolean') value = parseFieldBoolean(raw);
+    fields[key] = { label: def ? def.label : label, raw, kind, value };
+  });
+  return fields;
+};
+
+const formatFieldValue = (field?: DeviceField): string => {
+  if (!field) return '';
+  if (field.kind === 'date' && field.value) return field.value as string;
+  return field.raw;
+};
+
+const matchesFieldFilter = (device: Device, filter: FieldFilter): boolean => {
+  const field = device.fields[filter.key];
+  if (!field) return false;
+  if (field.kind === 'boolean' && filter.text) {
+    return field.value === (filter.text === 'yes');
+  }
+  if (field.kind === 'date' && (filter.from || filter.to)) {
+    const date = field.value as string | null;
+    if (!date) return false;
+    if (filter.from && date < filter.from) return false;
+    if (filter.to && date > filter.to) return false;
+    return true;
+  }
+  return formatFieldValue(field).toLowerCase().includes(filter.text.trim().toLowerCase());
+};
+
+// Every field seen across the devices, known fields first in FIELD_DEFS order
+const collectFieldCatalog = (devices: Device[]): FieldDef[] => {
+  const seen = new Map<string, FieldDef>();
+  devices.forEach(d => Object.entries(d.fields ?? {}).forEach(([key, f]) => {
+    if (!seen.has(key)) seen.set(key, { key, label: f.label, kind: f.kind });
+  }));
+  const order = FIELD_DEFS.map(def => def.key);
+  return Array.from(seen.values()).sort((a, b) => {
+    const ia = order.indexOf(a.key);
+    const ib = order.indexOf(b.key);
+    if (ia !== -1 || ib !== -1) return (ia === -1 ? Infinity : ia) - (ib === -1 ? Infinity : ib);
+    return a.label.localeCompare(b.label);
+  });
+};
+
+const CARD_FIELDS_KEY = 'sickw-card-fields';
+
+// Field keys shown on device cards; a corrupt stored value falls back to none
+const loadCardFields = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CARD_FIELDS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(key => typeof key === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const checkImeiWarning = (imei: string, chunkIndex: number): ParseWarning | null => {
+  if (isValidImei(imei)) return null;
+  return { chunkIndex, imei, reason: 'IMEI fails the Luhn check digit', skipped: false, invalidImei: true };
+};
+
+const checkLabels = (labels: string[], chunkIndex: number, imei: string): ParseWarning | null => {
+  const lower = new Set(labels.map(l => l.toLowerCase()));
+  const missingFields = EXPECTED_LABELS.filter(l => !lower.has(l.toLowerCase()));
+  const known = new Set(KNOWN_LABELS.map(l => l.toLowerCase()));
+  const unknownLabels = labels.filter(l => !known.has(l.toLowerCase()));
+  if (missingFields.length === 0 && unknownLabels.length === 0) return null;
+
+  const reasons = [];
+  if (missingFields.length > 0) reasons.push(`missing ${missingFields.join(', ')}`);
+  if (unknownLabels.length > 0) reasons.push(`unknown ${unknownLabels.join(', ')}`);
+  return { chunkIndex, imei, reason: `Labels ${reasons.join('; ')}`, skipped: false, missingFields, unknownLabels };
+};
+
+// Builds the shared Device shape from a label lookup, whatever the report format
+const buildDevice = (imei: string, index: number, getValue: (key: string) => string, rawText: string, pairs: [string, string][]): Device => {
+  const modelDesc = getValue('Model Description');
+  const imei2 = getValue('IMEI2');
+  const serial = getValue('Serial Number');
+  const warrantyStatus = getValue('Warranty Status');
+  const icloudLock = getValue('iCloud Lock');
+  const carrierRaw = getValue('Locked Carrier');
+  const simLock = getValue('Sim-Lock Status');
+  const estPurchaseDate = getValue('Estimated Purchase Date');
+  const activationStatus = getValue('Activation Status');
+
+  const group = resolveGroup(carrierRaw, simLock, DEFAULT_GROUP_RULES);
+
+  let isActive = false;
+  if (activationStatus) {
+    if (activationStatus.toLowerCase().includes('not activated')) {
+      isActive = false;
+    } else {
+      isActive = true;
+    }
+  } else {
+    if (estPurchaseDate) {
+      const lowerDate = estPurchaseDate.toLowerCase();
+      if (lowerDate.includes('not activated')) {
+        isActive = false;
+      } else if (/\b(19|20)\d{2}\b/.test(estPurchaseDate)) {
+        isActive = true;
+      }
+    }
+  }
+
+  return {
+    id: `${imei}-${index}`,
+    imei,
+    imei2,
+    modelDesc,
+    serial,
+    warrantyStatus,
+    icloudLock: icloudLock.toUpperCase(),
+    carrier: carrierRaw,
+    simLock,
+    estPurchaseDate,
+    activationStatus,
+    rawText,
+    group,
+    isActive,
+    fields: buildFieldMap(pairs)
+  };
+};
+
+const parseSickwHtml = (html: string): ParseResult => {
   const devices: Device[] = [];
+  const warnings: ParseWarning[] = [];
   const chunks = html.split('<b>IMEI: </b>');
 
   for (let i = 1; i < chunks.length; i++) {
@@ -52,10 +801,17 @@ const parseSickwHtml = (html: string): Device[] => {
     const imeiMatch = chunk.match(/^(\d{15})/);
     const imei = imeiMatch ? imeiMatch[1] : '';
 
-    if (!imei) continue;
+    if (!imei) {
+      const seen = chunk.replace(/<[^>]+>/g, '').trim().substring(0, 20);
+      warnings.push({ chunkIndex: i, reason: `No 15-digit IMEI after the IMEI label (found "${seen}")`, skipped: true });
+      continue;
+    }
 
     const preMatch = chunk.match(/<pre>([\s\S]*?)<\/pre>/);
-    if (!preMatch) continue;
+    if (!preMatch) {
+      warnings.push({ chunkIndex: i, imei, reason: 'No <pre> result block (page may be truncated)', skipped: true });
+      continue;
+    }
 
     const preContent = preMatch[1];
     
@@ -74,116 +830,631 @@ const parseSickwHtml = (html: string): Device[] => {
       return cleanValue;
     };
 
-    const modelDesc = getValue('Model Description');
-    const imei2 = getValue('IMEI2');
-    const serial = getValue('Serial Number');
-    const warrantyStatus = getValue('Warranty Status');
-    const icloudLock = getValue('iCloud Lock');
-    const carrierRaw = getValue('Locked Carrier');
-    const simLock = getValue('Sim-Lock Status');
-    const estPurchaseDate = getValue('Estimated Purchase Date');
-    const activationStatus = getValue('Activation Status');
-
-    let group: Device['group'] = 'Other';
-    const c = carrierRaw.toLowerCase();
-    const s = simLock.toLowerCase();
-
-    if (s.includes('unlocked') || c.includes('unlock') || c.includes('open policy')) {
-        group = 'Unlocked';
-    } else if (c.includes('t-mobile') || c.includes('sprint')) {
-        group = 'T-Mobile/Sprint';
-    } else if (c.includes('at&t')) {
-        group = 'AT&T';
-    } else if (c.includes('verizon')) {
-        group = 'Verizon';
-    }
-
-    let isActive = false;
-    if (activationStatus) {
-      if (activationStatus.toLowerCase().includes('not activated')) {
-        isActive = false;
-      } else {
-        isActive = true;
-      }
-    } else {
-      if (estPurchaseDate) {
-        const lowerDate = estPurchaseDate.toLowerCase();
-        if (lowerDate.includes('not activated')) {
-          isActive = false;
-        } else if (/\b(19|20)\d{2}\b/.test(estPurchaseDate)) {
-          isActive = true;
-        }
-      }
-    }
+    const pairs = splitKeyValueLines(preContent);
+    const labelWarning = checkLabels(pairs.map(([key]) => key), i, imei);
+    if (labelWarning) warnings.push(labelWarning);
+    const imeiWarning = checkImeiWarning(imei, i);
+    if (imeiWarning) warnings.push(imeiWarning);
 
-    devices.push({
-      id: `${imei}-${i}`,
-      imei,
-      imei2,
-      modelDesc,
-      serial,
-      warrantyStatus,
-      icloudLock: icloudLock.toUpperCase(),
-      carrier: carrierRaw,
-      simLock,
-      estPurchaseDate,
-      activationStatus,
-      rawText: preContent,
-      group,
-      isActive
-    });
+    devices.push(buildDevice(imei, i, getValue, preContent, [['IMEI', imei], ...pairs]));
   }
-  return devices;
+  return { devices, warnings };
 };
 
-const generateExportText = (devices: Device[]): string => {
-  const cleanModel = (name: string) => name.replace(/-USA/g, '').trim();
-  const separator = "===============================";
-  
-  const formatList = (devs: Device[]) => {
-    return devs.map(d => `${cleanModel(d.modelDesc)}\n${d.imei}\n${separator}`).join('\n');
-  };
+// Plain "Key: Value" text, one block per device starting at its "IMEI:" line
+const parseKeyValueText = (text: string): ParseResult => {
+  const devices: Device[] = [];
+  const warnings: ParseWarning[] = [];
+  const blocks = text.replace(/\r\n?/g, '\n').split(/^(?=\s*IMEI\s*:)/m);
 
-  let output = "";
+  blocks.forEach((block, i) => {
+    const fields: Record<string, string> = {};
+    block.split('\n').forEach(line => {
+      const sep = line.indexOf(':');
+      if (sep === -1) return;
+      const key = line.substring(0, sep).trim().toLowerCase();
+      if (key && !(key in fields)) fields[key] = line.substring(sep + 1).trim();
+    });
 
-  const icloud = devices.filter(d => d.icloudLock === 'ON');
-  if (icloud.length > 0) {
-    output += "*ICLOUD*\n\n" + formatList(icloud) + "\n\n";
-  }
+    const imei = (fields['imei'] || '').replace(/\s/g, '');
+    if (!/^\d{15}$/.test(imei)) {
+      // Text before the first IMEI line is a header, not a device
+      if ('imei' in fields) warnings.push({ chunkIndex: i, reason: `IMEI "${fields['imei']}" is not 15 digits`, skipped: true });
+      return;
+    }
 
-  const tmobileNonActive = devices.filter(d => d.icloudLock !== 'ON' && d.group === 'T-Mobile/Sprint' && !d.isActive);
-  if (tmobileNonActive.length > 0) {
-    output += "locked and non active tmoblie with network phone are like this with the device detetils,\n\n*LOCKED N NON ACTIVE T-MOBILE*\n\n" + formatList(tmobileNonActive) + "\n\n";
-  }
+    const pairs = splitKeyValueLines(block);
+    const labelWarning = checkLabels(pairs.map(([key]) => key), i, imei);
+    if (labelWarning) warnings.push(labelWarning);
+    const imeiWarning = checkImeiWarning(imei, i);
+    if (imeiWarning) warnings.push(imeiWarning);
 
-  const tmobileActive = devices.filter(d => d.icloudLock !== 'ON' && d.group === 'T-Mobile/Sprint' && d.isActive);
-  if (tmobileActive.length > 0) {
-    output += "*LOCKED N ACTIVE T-MOBILE*\n\n" + formatList(tmobileActive) + "\n\n";
-  }
+    devices.push(buildDevice(imei, i, key => fields[key.toLowerCase()] || '', block.trim(), pairs));
+  });
+  return { devices, warnings };
+};
 
-  const lockedOtherNonActive = devices.filter(d => d.icloudLock !== 'ON' && d.group !== 'T-Mobile/Sprint' && d.group !== 'Unlocked' && !d.isActive);
-  if (lockedOtherNonActive.length > 0) {
-    output += "locked and non active other network phone are like this with the device detetils,\n\n*LOCKED N NON ACTIVE*\n\n" + formatList(lockedOtherNonActive) + "\n\n";
-  }
+const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
 
-  const lockedOtherActive = devices.filter(d => d.icloudLock !== 'ON' && d.group !== 'T-Mobile/Sprint' && d.group !== 'Unlocked' && d.isActive);
-  if (lockedOtherActive.length > 0) {
-    output += "*LOCKED N ACTIVE*\n\n" + formatList(lockedOtherActive) + "\n\n";
-  }
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(v => v.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(v => v.trim())) rows.push(row);
+  return rows;
+};
+
+// Header aliases seen in CSV/TXT exports, mapped to the Sickw labels buildDevice reads
+const CSV_HEADER_ALIASES: Record<string, string> = {
+  'imei1': 'IMEI',
+  'imei 1': 'IMEI',
+  'imei 2': 'IMEI2',
+  'model': 'Model Description',
+  'serial': 'Serial Number',
+  'carrier': 'Locked Carrier',
+  'sim lock': 'Sim-Lock Status',
+  'simlock': 'Sim-Lock Status',
+  'icloud': 'iCloud Lock',
+  'fmi': 'iCloud Lock',
+  'purchase date': 'Estimated Purchase Date',
+  'warranty': 'Warranty Status',
+  'activation': 'Activation Status'
+};
+
+const detectCsvDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+};
+
+const parseCsv = (text: string): ParseResult => {
+  const rows = parseCsvRows(text, detectCsvDelimiter(text));
+  if (rows.length < 2) return { devices: [], warnings: [{ chunkIndex: 0, reason: 'No data rows below the header', skipped: true }] };
+
+  const labels = rows[0].map(h => CSV_HEADER_ALIASES[h.trim().toLowerCase()] || h.trim());
+  const headers = labels.map(l => l.toLowerCase());
+  const imeiCol = headers.indexOf('imei');
+  if (imeiCol === -1) return { devices: [], warnings: [{ chunkIndex: 0, reason: 'No IMEI column in the header', skipped: true }] };
+
+  const devices: Device[] = [];
+  const warnings: ParseWarning[] = [];
+
+  // Columns are shared by every row, so label problems are reported once against the header
+  const headerWarning = checkLabels(headers, 0, '');
+  if (headerWarning) warnings.push({ ...headerWarning, imei: undefined });
+
+  rows.slice(1).forEach((row, i) => {
+    const imei = (row[imeiCol] || '').replace(/\D/g, '');
+    if (imei.length !== 15) {
+      warnings.push({ chunkIndex: i + 1, reason: `Row IMEI "${row[imeiCol] || ''}" is not 15 digits`, skipped: true });
+      return;
+    }
+    const imeiWarning = checkImeiWarning(imei, i + 1);
+    if (imeiWarning) warnings.push(imeiWarning);
+
+    const getValue = (key: string) => {
+      const col = headers.indexOf(key.toLowerCase());
+      return col === -1 ? '' : (row[col] || '').trim();
+    };
+    const rawText = rows[0].map((h, col) => `${h.trim()}: ${(row[col] || '').trim()}`).join('\n');
+    const pairs = labels.map((label, col) => [label, (row[col] || '').trim()] as [string, string]);
+    devices.push(buildDevice(imei, i + 1, getValue, rawText, pairs));
+  });
+  return { devices, warnings };
+};
+
+// --- PARSER REGISTRY ---
+
+interface ReportParser {
+  id: string;
+  label: string;
+  detect: (text: string, fileName?: string) => boolean;
+  parse: (text: string) => ParseResult;
+}
+
+// Checked in order, first match wins
+const REPORT_PARSERS: ReportParser[] = [
+  {
+    id: 'sickw-html',
+    label: 'Sickw HTML',
+    detect: (text) => text.includes('<b>IMEI: </b>'),
+    parse: parseSickwHtml
+  },
+  {
+    id: 'csv',
+    label: 'CSV',
+    detect: (text, fileName) => {
+      if (fileName && /\.csv$/i.test(fileName)) return true;
+      const firstLine = text.trimStart().split(/\r?\n/, 1)[0].toLowerCase();
+      return /(^|[,;\t"])\s*imei\s*1?\s*("?)\s*([,;\t]|$)/.test(firstLine);
+    },
+    parse: parseCsv
+  },
+  {
+    id: 'key-value',
+    label: 'Key: Value Text',
+    detect: (text) => /^\s*IMEI\s*:\s*\d{15}/m.test(text),
+    parse: parseKeyValueText
+  }
+];
+
+const detectParser = (text: string, fileName?: string): ReportParser | undefined => {
+  return REPORT_PARSERS.find(p => p.detect(text, fileName));
+};
+
+const parseReport = (text: string, fileName?: string): ParseResult & { parser: ReportParser } => {
+  const source = fileName ? `"${fileName}"` : 'Pasted text';
+  const parser = detectParser(text, fileName);
+  if (!parser) {
+    throw new Error(`${source} is not a recognised report format. Supported: ${REPORT_PARSERS.map(p => p.label).join(', ')}.`);
+  }
+  const { devices, warnings } = parser.parse(text);
+  if (devices.length === 0) {
+    const firstReason = warnings.find(w => w.skipped)?.reason;
+    throw new Error(`${source} looks like ${parser.label} but no devices with a 15-digit IMEI were found.${firstReason ? ` First problem: ${firstReason}.` : ''}`);
+  }
+  return { parser, devices, warnings };
+};
 
-  const unlockedNonActive = devices.filter(d => d.icloudLock !== 'ON' && d.group === 'Unlocked' && !d.isActive);
-  if (unlockedNonActive.length > 0) {
-    output += "unlocked and non active phone are like this with the device detetils,\n\nUNLOCKED N NON ACTIVE\n\n" + formatList(unlockedNonActive) + "\n\n";
+// --- EXPORT TEMPLATES ---
+
+const cleanModel = (name: string) => name.replace(/-USA/g, '').trim();
+
+// Device values usable in export rules, line placeholders and sorting; any parsed field key also works
+const EXPORT_BUILTIN_KEYS: { key: string; label: string }[] = [
+  { key: 'model', label: 'Model (clean)' },
+  { key: 'modelDesc', label: 'Model Description' },
+  { key: 'imei', label: 'IMEI' },
+  { key: 'imei2', label: 'IMEI2' },
+  { key: 'serial', label: 'Serial Number' },
+  { key: 'group', label: 'Carrier Group' },
+  { key: 'carrier', label: 'Locked Carrier' },
+  { key: 'simLock', label: 'Sim-Lock Status' },
+  { key: 'icloudLock', label: 'iCloud Lock' },
+  { key: 'active', label: 'Active (yes/no)' },
+  { key: 'warrantyStatus', label: 'Warranty Status' },
+  { key: 'activationStatus', label: 'Activation Status' },
+  { key: 'estPurchaseDate', label: 'Estimated Purchase Date' },
+  { key: 'sourceFile', label: 'Source File' },
+  { key: 'grade', label: 'Grade' },
+  { key: 'batteryHealth', label: 'Battery Health (%)' },
+  { key: 'purchasePrice', label: 'Purchase Price' },
+  { key: 'salePrice', label: 'Sale Price' },
+  { key: 'priceOverride', label: 'Value Override' },
+  { key: 'buyer', label: 'Buyer' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'tags', label: 'Tags' }
+];
+
+const getDeviceValue = (device: Device, key: string): string => {
+  switch (key) {
+    case 'model': return cleanModel(device.modelDesc);
+    case 'modelDesc': return device.modelDesc;
+    case 'imei': return device.imei;
+    case 'imei2': return device.imei2 || '';
+    case 'serial': return device.serial || '';
+    case 'group': return device.group;
+    case 'carrier': return device.carrier || '';
+    case 'simLock': return device.simLock || '';
+    case 'icloudLock': return device.icloudLock || '';
+    case 'active': return device.isActive ? 'yes' : 'no';
+    case 'warrantyStatus': return device.warrantyStatus || '';
+    case 'activationStatus': return device.activationStatus || '';
+    case 'estPurchaseDate': return device.estPurchaseDate || '';
+    case 'sourceFile': return device.sourceFile || '';
+    case 'grade': return device.annotation?.grade || '';
+    case 'batteryHealth': return device.annotation?.batteryHealth?.toString() ?? '';
+    case 'purchasePrice': return device.annotation?.purchasePrice?.toString() ?? '';
+    case 'salePrice': return device.annotation?.salePrice?.toString() ?? '';
+    case 'priceOverride': return device.annotation?.priceOverride?.toString() ?? '';
+    case 'buyer': return device.annotation?.buyer || '';
+    case 'notes': return device.annotation?.notes || '';
+    case 'tags': return (device.annotation?.tags || []).join(', ');
+    default: return formatFieldValue(device.fields?.[key]);
   }
+};
 
-  const unlockedActive = devices.filter(d => d.icloudLock !== 'ON' && d.group === 'Unlocked' && d.isActive);
-  if (unlockedActive.length > 0) {
-    output += "unlocked and active phone like this device detetils,\n\nUNLOCKED N ACTIVE\n\n" + formatList(unlockedActive) + "\n\n";
+const matchesExportRule = (device: Device, rule: ExportRule): boolean => {
+  const value = getDeviceValue(device, rule.field).toLowerCase();
+  const target = rule.value.trim().toLowerCase();
+  switch (rule.op) {
+    case 'is': return value === target;
+    case 'is-not': return value !== target;
+    case 'contains': return value.includes(target);
+    case 'not-contains': return !value.includes(target);
   }
+};
+
+// Replaces {key} placeholders with device values, e.g. "{model}\n{imei}"
+const renderLineTemplate = (template: string, device: Device): string => {
+  return template.replace(/\{([\w-]+)\}/g, (_, key) => getDeviceValue(device, key));
+};
+
+// Dates compare in ISO form; Sickw prints MM/DD/YYYY, which as text sorts by month
+const compareDeviceValues = (a: Device, b: Device, key: string): number => {
+  const isDate = key === 'estPurchaseDate' || a.fields?.[key]?.kind === 'date' || b.fields?.[key]?.kind === 'date';
+  const sortValue = (device: Device) => {
+    const value = getDeviceValue(device, key);
+    return isDate ? parseFieldDate(value) || value : value;
+  };
+  return sortValue(a).localeCompare(sortValue(b), undefined, { numeric: true });
+};
+
+const sortForExport = (devices: Device[], template: ExportTemplate): Device[] => {
+  if (!template.sortBy) return devices;
+  const dir = template.sortDir === 'desc' ? -1 : 1;
+  return [...devices].sort((a, b) => dir * compareDeviceValues(a, b, template.sortBy));
+};
+
+const DEFAULT_EXPORT_TEMPLATE: ExportTemplate = {
+  id: 'default',
+  name: 'Default (Sickw Groups)',
+  lineTemplate: '{model}\n{imei}',
+  separator: '===============================',
+  sortBy: '',
+  sortDir: 'asc',
+  sections: [
+    {
+      id: 'icloud',
+      heading: '*ICLOUD*',
+      rules: [{ field: 'icloudLock', op: 'is', value: 'ON' }]
+    },
+    {
+      id: 'tmobile-inactive',
+      heading: 'locked and non active tmoblie with network phone are like this with the device detetils,\n\n*LOCKED N NON ACTIVE T-MOBILE*',
+      rules: [{ field: 'icloudLock', op: 'is-not', value: 'ON' }, { field: 'group', op: 'is', value: 'T-Mobile/Sprint' }, { field: 'active', op: 'is', value: 'no' }]
+    },
+    {
+      id: 'tmobile-active',
+      heading: '*LOCKED N ACTIVE T-MOBILE*',
+      rules: [{ field: 'icloudLock', op: 'is-not', value: 'ON' }, { field: 'group', op: 'is', value: 'T-Mobile/Sprint' }, { field: 'active', op: 'is', value: 'yes' }]
+    },
+    {
+      id: 'locked-inactive',
+      heading: 'locked and non active other network phone are like this with the device detetils,\n\n*LOCKED N NON ACTIVE*',
+      rules: [{ field: 'icloudLock', op: 'is-not', value: 'ON' }, { field: 'group', op: 'is-not', value: 'T-Mobile/Sprint' }, { field: 'group', op: 'is-not', value: 'Unlocked' }, { field: 'active', op: 'is', value: 'no' }]
+    },
+    {
+      id: 'locked-active',
+      heading: '*LOCKED N ACTIVE*',
+      rules: [{ field: 'icloudLock', op: 'is-not', value: 'ON' }, { field: 'group', op: 'is-not', value: 'T-Mobile/Sprint' }, { field: 'group', op: 'is-not', value: 'Unlocked' }, { field: 'active', op: 'is', value: 'yes' }]
+    },
+    {
+      id: 'unlocked-inactive',
+      heading: 'unlocked and non active phone are like this with the device detetils,\n\nUNLOCKED N NON ACTIVE',
+      rules: [{ field: 'icloudLock', op: 'is-not', value: 'ON' }, { field: 'group', op: 'is', value: 'Unlocked' }, { field: 'active', op: 'is', value: 'no' }]
+    },
+    {
+      id: 'unlocked-active',
+      heading: 'unlocked and active phone like this device detetils,\n\nUNLOCKED N ACTIVE',
+      rules: [{ field: 'icloudLock', op: 'is-not', value: 'ON' }, { field: 'group', op: 'is', value: 'Unlocked' }, { field: 'active', op: 'is', value: 'yes' }]
+    }
+  ]
+};
+
+// Section rules name groups as text, so a renamed group takes its rules along with it
+const renameTemplateGroup = (template: ExportTemplate, from: string, to: string): ExportTemplate => ({
+  ...template,
+  sections: template.sections.map(sec => ({
+    ...sec,
+    rules: sec.rules.map(r => r.field === 'group' && r.value.trim().toLowerCase() === from.toLowerCase() ? { ...r, value: to } : r)
+  }))
+});
+
+// Group values no current group has; "is" rules on them match nothing and "is not" rules match everything
+const findStaleGroupValues = (template: ExportTemplate, groupNames: string[]): string[] => {
+  const known = new Set(groupNames.map(n => n.toLowerCase()));
+  const stale = template.sections.flatMap(sec => sec.rules
+    .filter(r => r.field === 'group' && (r.op === 'is' || r.op === 'is-not') && r.value.trim() && !known.has(r.value.trim().toLowerCase()))
+    .map(r => r.value.trim()));
+  return Array.from(new Set(stale));
+};
+
+// Devices matching every rule of a section, in template sort order
+const getSectionDevices = (devices: Device[], section: ExportSection, template: ExportTemplate): Device[] => {
+  return sortForExport(devices.filter(d => section.rules.every(rule => matchesExportRule(d, rule))), template);
+};
+
+// extraFields (the fields shown on device cards) are added under each line unless the line template already prints them
+const generateExportText = (devices: Device[], template: ExportTemplate = DEFAULT_EXPORT_TEMPLATE, extraFields: string[] = []): string => {
+  const appended = extraFields.filter(key => !template.lineTemplate.includes(`{${key}}`));
+
+  const formatExtra = (d: Device) => appended
+    .filter(key => d.fields?.[key])
+    .map(key => `\n${d.fields[key].label}: ${formatFieldValue(d.fields[key])}`)
+    .join('');
+
+  const formatList = (devs: Device[]) => {
+    return devs.map(d => `${renderLineTemplate(template.lineTemplate, d)}${formatExtra(d)}\n${template.separator}`).join('\n');
+  };
+
+  let output = "";
+  template.sections.forEach(section => {
+    const sectionDevices = getSectionDevices(devices, section, template);
+    if (sectionDevices.length > 0) {
+      output += section.heading + "\n\n" + formatList(sectionDevices) + "\n\n";
+    }
+  });
 
   return output.trim();
 };
 
+const EXPORT_TEMPLATES_KEY = 'sickw-export-templates';
+
+const isExportRule = (value: unknown): value is ExportRule => {
+  const rule = value as ExportRule;
+  return !!rule && typeof rule === 'object' && typeof rule.field === 'string' && typeof rule.value === 'string'
+    && ['is', 'is-not', 'contains', 'not-contains'].includes(rule.op);
+};
+
+const isExportTemplate = (value: unknown): value is ExportTemplate => {
+  const template = value as ExportTemplate;
+  return !!template && typeof template === 'object'
+    && typeof template.id === 'string' && typeof template.name === 'string'
+    && typeof template.lineTemplate === 'string' && typeof template.separator === 'string'
+    && typeof template.sortBy === 'string' && (template.sortDir === 'asc' || template.sortDir === 'desc')
+    && Array.isArray(template.sections)
+    && template.sections.every(sec => !!sec && typeof sec.id === 'string' && typeof sec.heading === 'string' && Array.isArray(sec.rules) && sec.rules.every(isExportRule));
+};
+
+// Damaged templates are dropped one by one; the default comes back if none survive
+const loadExportTemplates = (): ExportTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(EXPORT_TEMPLATES_KEY) || '[]');
+    const templates = Array.isArray(stored) ? stored.filter(isExportTemplate) : [];
+    return templates.length > 0 ? templates : [DEFAULT_EXPORT_TEMPLATE];
+  } catch {
+    return [DEFAULT_EXPORT_TEMPLATE];
+  }
+};
+
+// --- FILTERING & SORTING ---
+
+// "IPHONE 13 PRO MAX BLUE 128GB-USA" -> "iPhone 13"
+const getModelFamily = (modelDesc: string): string => {
+  const iphone = modelDesc.match(/IPHONE\s+(\d+|XS|XR|X|SE)\b/i);
+  if (iphone) return `iPhone ${iphone[1].toUpperCase()}`;
+  const ipad = modelDesc.match(/IPAD\s*(PRO|AIR|MINI)?/i);
+  if (ipad) return ipad[1] ? `iPad ${ipad[1][0].toUpperCase()}${ipad[1].slice(1).toLowerCase()}` : 'iPad';
+  return modelDesc.split(/\s+/).slice(0, 2).join(' ') || 'Unknown';
+};
+
+// "IPHONE 13 PRO 256GB BLUE" -> "256GB"
+const getStorage = (modelDesc: string): string => {
+  const match = modelDesc.match(/(\d+)\s*(GB|TB)\b/i);
+  return match ? `${match[1]}${match[2].toUpperCase()}` : '';
+};
+
+const getWarrantyState = (warrantyStatus?: string): string => {
+  const w = (warrantyStatus || '').toLowerCase();
+  if (!w) return 'Unknown';
+  if (w.includes('out of') || w.includes('expired')) return 'Expired';
+  if (w.includes('applecare')) return 'AppleCare';
+  if (w.includes('limited')) return 'Limited Warranty';
+  return 'Other';
+};
+
+const getSimLockState = (simLock?: string): string => {
+  const s = (simLock || '').toLowerCase();
+  return s.includes('unlocked') ? 'Unlocked' : s.includes('locked') ? 'Locked' : 'Unknown';
+};
+
+const getPurchaseDate = (device: Device): string | null => {
+  const field = device.fields?.estimatedPurchaseDate;
+  if (field) return field.value as string | null;
+  return device.estPurchaseDate ? parseFieldDate(device.estPurchaseDate) : null;
+};
+
+// A device can carry several values for a facet (tags); selecting any of them matches
+const FACETS: { key: FacetKey; label: string; getValues: (d: Device) => string[] }[] = [
+  { key: 'group', label: 'Group', getValues: d => [d.group] },
+  { key: 'icloud', label: 'iCloud', getValues: d => [d.icloudLock || 'Unknown'] },
+  { key: 'active', label: 'State', getValues: d => [d.isActive ? 'Active' : 'Inactive'] },
+  { key: 'simLock', label: 'Sim-Lock', getValues: d => [getSimLockState(d.simLock)] },
+  { key: 'modelFamily', label: 'Model', getValues: d => [getModelFamily(d.modelDesc)] },
+  { key: 'storage', label: 'Storage', getValues: d => [getStorage(d.modelDesc) || 'Unknown'] },
+  { key: 'warranty', label: 'Warranty', getValues: d => [getWarrantyState(d.warrantyStatus)] },
+  { key: 'grade', label: 'Grade', getValues: d => [d.annotation?.grade || 'Ungraded'] },
+  { key: 'buyer', label: 'Buyer', getValues: d => [d.annotation?.buyer || 'No Buyer'] },
+  { key: 'tag', label: 'Tag', getValues: d => d.annotation?.tags.length ? d.annotation.tags : ['Untagged'] }
+];
+
+const EMPTY_FILTERS: DeviceFilters = {
+  facets: { group: [], icloud: [], active: [], simLock: [], modelFamily: [], storage: [], warranty: [], grade: [], buyer: [], tag: [] },
+  purchaseFrom: '',
+  purchaseTo: '',
+  field: null
+};
+
+const hasActiveFilters = (filters: DeviceFilters): boolean => {
+  return Object.values(filters.facets).some(v => v.length > 0) || !!filters.purchaseFrom || !!filters.purchaseTo || !!filters.field;
+};
+
+// skipFacet leaves one facet out so its own counts show what selecting another value would give
+const matchesFilters = (device: Device, filters: DeviceFilters, skipFacet?: FacetKey): boolean => {
+  for (const facet of FACETS) {
+    const selected = filters.facets[facet.key];
+    if (facet.key !== skipFacet && selected.length > 0 && !facet.getValues(device).some(v => selected.includes(v))) return false;
+  }
+  if (filters.purchaseFrom || filters.purchaseTo) {
+    const date = getPurchaseDate(device);
+    if (!date) return false;
+    if (filters.purchaseFrom && date < filters.purchaseFrom) return false;
+    if (filters.purchaseTo && date > filters.purchaseTo) return false;
+  }
+  if (filters.field && !matchesFieldFilter(device, filters.field)) return false;
+  return true;
+};
+
+const countFacetValues = (devices: Device[], filters: DeviceFilters, facet: typeof FACETS[number]): [string, number][] => {
+  const counts: Record<string, number> = {};
+  devices.forEach(d => {
+    if (!matchesFilters(d, filters, facet.key)) return;
+    facet.getValues(d).forEach(value => { counts[value] = (counts[value] || 0) + 1; });
+  });
+  // Keep selected values visible even when nothing matches them any more
+  filters.facets[facet.key].forEach(v => { if (!(v in counts)) counts[v] = 0; });
+  return Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+// Estimated purchase dates bucketed by month, or by year once the spread gets too wide to read
+const countPurchaseDates = (devices: Device[], filters: DeviceFilters): { label: string; from: string; to: string; count: number }[] => {
+  const unranged = { ...filters, purchaseFrom: '', purchaseTo: '' };
+  const dates = (devices.filter(d => matchesFilters(d, unranged)).map(getPurchaseDate).filter(Boolean) as string[]).sort();
+  if (dates.length === 0) return [];
+
+  const [firstYear, firstMonth] = dates[0].split('-').map(Number);
+  const [lastYear, lastMonth] = dates[dates.length - 1].split('-').map(Number);
+  const byYear = (lastYear - firstYear) * 12 + (lastMonth - firstMonth) >= 24;
+
+  const counts: Record<string, number> = {};
+  dates.forEach(d => {
+    const key = byYear ? d.slice(0, 4) : d.slice(0, 7);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+
+  // Empty months/years still get a bar so the axis stays continuous
+  const bins: { label: string; from: string; to: string; count: number }[] = [];
+  if (byYear) {
+    for (let y = firstYear; y <= lastYear; y++) {
+      bins.push({ label: String(y), from: `${y}-01-01`, to: `${y}-12-31`, count: counts[String(y)] || 0 });
+    }
+  } else {
+    for (let i = firstYear * 12 + firstMonth - 1; i <= lastYear * 12 + lastMonth - 1; i++) {
+      const y = Math.floor(i / 12);
+      const m = String(i % 12 + 1).padStart(2, '0');
+      const lastDay = new Date(y, i % 12 + 1, 0).getDate();
+      bins.push({ label: `${y}-${m}`, from: `${y}-${m}-01`, to: `${y}-${m}-${lastDay}`, count: counts[`${y}-${m}`] || 0 });
+    }
+  }
+  return bins;
+};
+
+const sortDevices = (devices: Device[], sort: DeviceSort): Device[] => {
+  if (!sort.key) return devices;
+  const dir = sort.dir === 'desc' ? -1 : 1;
+  return [...devices].sort((a, b) => dir * compareDeviceValues(a, b, sort.key));
+};
+
+// --- DATA EXPORT (CSV / XLSX / JSON) ---
+
+type DataExportFormat = 'csv' | 'xlsx' | 'json';
+
+const DEFAULT_EXPORT_COLUMNS = ['modelDesc', 'imei', 'imei2', 'serial', 'group', 'carrier', 'simLock', 'icloudLock', 'active', 'warrantyStatus', 'estPurchaseDate'];
+
+const EXPORT_COLUMNS_KEY = 'sickw-export-columns';
+
+const loadExportColumns = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(EXPORT_COLUMNS_KEY) || 'null');
+    return Array.isArray(stored) ? stored.filter(key => typeof key === 'string') : DEFAULT_EXPORT_COLUMNS;
+  } catch {
+    return DEFAULT_EXPORT_COLUMNS;
+  }
+};
+
+const buildExportRows = (devices: Device[], columns: { key: string; label: string }[]): string[][] => {
+  return [
+    columns.map(c => c.label),
+    ...devices.map(d => columns.map(c => getDeviceValue(d, c.key)))
+  ];
+};
+
+// Notes, buyers and Sickw text are untrusted; Excel would run a cell like "=HYPERLINK(...)" as a formula
+const neutralizeFormula = (value: string) => /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const toCsv = (rows: string[][]): string => {
+  const escape = (raw: string) => {
+    const value = neutralizeFormula(raw);
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  return rows.map(row => row.map(escape).join(',')).join('\r\n');
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const toFileSlug = (name: string) => name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'export';
+
+const exportDeviceData = async (devices: Device[], columns: { key: string; label: string }[], format: DataExportFormat, baseName: string) => {
+  const fileName = `${toFileSlug(baseName)}.${format}`;
+  if (format === 'csv') {
+    // BOM so Excel opens UTF-8 correctly
+    downloadBlob(new Blob(['\ufeff' + toCsv(buildExportRows(devices, columns))], { type: 'text/csv;charset=utf-8' }), fileName);
+  } else if (format === 'json') {
+    const records = devices.map(d => Object.fromEntries(columns.map(c => [c.key, getDeviceValue(d, c.key)])));
+    downloadBlob(new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' }), fileName);
+  } else {
+    // Loaded on demand, it's only needed here
+    const { default: writeXlsxFile } = await import('write-excel-file/browser');
+    downloadBlob(await writeXlsxFile(buildExportRows(devices, columns).map(row => row.map(neutralizeFormula)), { sheet: 'Devices' }).toBlob(), fileName);
+  }
+};
+
+// Fields compared when the same IMEI appears in more than one uploaded file
+const MERGE_COMPARE_FIELDS: (keyof Device)[] = ['modelDesc', 'icloudLock', 'simLock', 'carrier', 'warrantyStatus', 'activationStatus'];
+
+const mergeDevices = (existing: Device[], incoming: Device[]): MergeResult => {
+  const byImei = new Map<string, Device>(existing.map(d => [d.imei, d]));
+  const devices = [...existing];
+  const conflicts: MergeConflict[] = [];
+  let duplicateCount = 0;
+
+  incoming.forEach(d => {
+    const prev = byImei.get(d.imei);
+    if (!prev) {
+      byImei.set(d.imei, d);
+      devices.push(d);
+      return;
+    }
+
+    // First occurrence wins, differences are reported
+    duplicateCount++;
+    MERGE_COMPARE_FIELDS.forEach(field => {
+      const a = String(prev[field] ?? '');
+      const b = String(d[field] ?? '');
+      if (a !== b) {
+        conflicts.push({
+          imei: d.imei,
+          modelDesc: prev.modelDesc,
+          field,
+          values: [
+            { sourceFile: prev.sourceFile || 'Unknown', value: a },
+            { sourceFile: d.sourceFile || 'Unknown', value: b }
+          ]
+        });
+      }
+    });
+  });
+
+  return { devices, conflicts, duplicateCount };
+};
+
 const getCleanDeviceDetails = (rawHtml: string): string => {
   return rawHtml
     .replace(/<br\s*\/?>/gi, '\n')
@@ -192,52 +1463,2780 @@ const getCleanDeviceDetails = (rawHtml: string): string => {
     .trim();
 };
 
+// --- RECONCILIATION (CHECK-IN) ---
+
+const createReconciliation = (): Reconciliation => ({ active: true, startedAt: Date.now(), received: {}, scans: [] });
+
+// Marks the device behind a scanned IMEI, IMEI2 or serial as received; anything unknown is logged as unexpected
+const checkInValue = (rec: Reconciliation, raw: string, index: Map<string, IdentifierHit>): { rec: Reconciliation, scan: CheckInScan } => {
+  const value = normalizeScanValue(raw);
+  const hit = index.get(value);
+  const at = Date.now();
+  if (!hit) {
+    const scan: CheckInScan = { value, at, duplicate: rec.scans.some(s => !s.imei && s.value === value) };
+    return { rec: { ...rec, scans: [scan, ...rec.scans] }, scan };
+  }
+  const imei = hit.device.imei;
+  const duplicate = imei in rec.received;
+  const scan: CheckInScan = { value, imei, at, duplicate };
+  return {
+    rec: { ...rec, received: duplicate ? rec.received : { ...rec.received, [imei]: at }, scans: [scan, ...rec.scans] },
+    scan
+  };
+};
+
+const getUnexpectedScans = (rec: Reconciliation): CheckInScan[] => {
+  const seen = new Map<string, CheckInScan>();
+  rec.scans.forEach(s => { if (!s.imei) seen.set(s.value, s); }); // Newest first, so the earliest scan wins
+  return Array.from(seen.values()).reverse();
+};
+
+const tallyReconciliation = (groups: CarrierGroup[], rec: Reconciliation): GroupTally[] => {
+  return groups.map(g => ({
+    group: g.name,
+    color: g.color,
+    expected: g.devices.length,
+    received: g.devices.filter(d => d.imei in rec.received).length
+  }));
+};
+
+const buildDiscrepancyReport = (devices: Device[], rec: Reconciliation): DiscrepancyReport => ({
+  missing: devices.filter(d => !(d.imei in rec.received)),
+  extra: getUnexpectedScans(rec),
+  lockedReceived: devices.filter(d => d.imei in rec.received && d.icloudLock === 'ON')
+});
+
+const formatCheckInTime = (at: number) => new Date(at).toLocaleString();
+
+const discrepancyReportText = (report: DiscrepancyReport, rec: Reconciliation): string => {
+  const section = (heading: string, lines: string[]) => `${heading} (${lines.length})\n${lines.length > 0 ? lines.join('\n') : '(none)'}`;
+  return [
+    `Check-in started ${formatCheckInTime(rec.startedAt)}`,
+    section('MISSING FROM BOX', report.missing.map(d => `${cleanModel(d.modelDesc)} ${d.imei} [${d.group}]`)),
+    section('EXTRA IN BOX', report.extra.map(s => `${s.value} (scanned ${formatCheckInTime(s.at)})`)),
+    section('ICLOUD LOCKED RECEIVED', report.lockedReceived.map(d => `${cleanModel(d.modelDesc)} ${d.imei} [${d.group}]`))
+  ].join('\n\n');
+};
+
+const discrepancyReportRows = (report: DiscrepancyReport, rec: Reconciliation): string[][] => [
+  ['Status', 'IMEI', 'Model', 'Group', 'iCloud Lock', 'Received At'],
+  ...report.missing.map(d => ['Missing', d.imei, d.modelDesc, d.group, d.icloudLock || '', '']),
+  ...report.extra.map(s => ['Extra', s.value, '', '', '', formatCheckInTime(s.at)]),
+  ...report.lockedReceived.map(d => ['iCloud Locked', d.imei, d.modelDesc, d.group, d.icloudLock || '', formatCheckInTime(rec.received[d.imei])])
+];
+
+// --- ORDER DIFF ---
+
+const DIFF_FIELDS: { field: DiffField; label: string }[] = [
+  { field: 'icloudLock', label: 'iCloud Lock' },
+  { field: 'simLock', label: 'Sim-Lock' },
+  { field: 'carrier', label: 'Carrier' },
+  { field: 'activationStatus', label: 'Activation' },
+  { field: 'warrantyStatus', label: 'Warranty' },
+  { field: 'group', label: 'Group' }
+];
+
+const diffOrders = (previous: Device[], current: Device[]): DeviceDiff[] => {
+  const before = new Map(previous.map(d => [d.imei, d]));
+  const diffs: DeviceDiff[] = current.map(after => {
+    const prev = before.get(after.imei);
+    if (!prev) return { imei: after.imei, status: 'added', after, changes: [] };
+    const changes = DIFF_FIELDS
+      .map(({ field }) => ({ field, before: (prev[field] || '').trim(), after: (after[field] || '').trim() }))
+      .filter(c => c.before.toLowerCase() !== c.after.toLowerCase());
+    return { imei: after.imei, status: changes.length > 0 ? 'changed' : 'unchanged', before: prev, after, changes };
+  });
+  const currentImeis = new Set(current.map(d => d.imei));
+  previous.filter(d => !currentImeis.has(d.imei)).forEach(prev => diffs.push({ imei: prev.imei, status: 'removed', before: prev, changes: [] }));
+  return diffs;
+};
+
+const findChange = (diff: DeviceDiff, field: DiffField) => diff.changes.find(c => c.field === field);
+
+const DIFF_FILTERS: { key: string; label: string; test: (diff: DeviceDiff) => boolean }[] = [
+  { key: 'changed', label: 'Any Change', test: d => d.status === 'changed' },
+  { key: 'icloud-locked', label: 'Newly iCloud Locked', test: d => findChange(d, 'icloudLock')?.after.toUpperCase() === 'ON' },
+  { key: 'icloud-unlocked', label: 'iCloud Now Off', test: d => findChange(d, 'icloudLock')?.after.toUpperCase() === 'OFF' },
+  { key: 'unlocked', label: 'Newly Unlocked', test: d => !!findChange(d, 'simLock') && getSimLockState(d.after?.simLock) === 'Unlocked' && getSimLockState(d.before?.simLock) !== 'Unlocked' },
+  { key: 'sim-locked', label: 'Newly Sim-Locked', test: d => !!findChange(d, 'simLock') && getSimLockState(d.after?.simLock) === 'Locked' && getSimLockState(d.before?.simLock) !== 'Locked' },
+  { key: 'activated', label: 'Newly Activated', test: d => !!d.before && !!d.after && !d.before.isActive && d.after.isActive },
+  { key: 'carrier', label: 'Carrier Changed', test: d => !!findChange(d, 'carrier') },
+  { key: 'group', label: 'Group Changed', test: d => !!findChange(d, 'group') },
+  { key: 'warranty', label: 'Warranty Changed', test: d => !!findChange(d, 'warrantyStatus') },
+  { key: 'added', label: 'Only In Current', test: d => d.status === 'added' },
+  { key: 'removed', label: 'Only In Previous', test: d => d.status === 'removed' }
+];
+
+const describeChange = (c: FieldChange) => {
+  const label = DIFF_FIELDS.find(f => f.field === c.field)!.label;
+  return `${label}: ${c.before || '(blank)'} → ${c.after || '(blank)'}`;
+};
+
+const changeReportRows = (diffs: DeviceDiff[]): string[][] => [
+  ['IMEI', 'Model', 'Status', ...DIFF_FIELDS.flatMap(f => [`${f.label} Before`, `${f.label} After`])],
+  ...diffs.map(d => [
+    d.imei,
+    (d.after || d.before)!.modelDesc,
+    d.status,
+    ...DIFF_FIELDS.flatMap(({ field }) => [d.before?.[field] || '', d.after?.[field] || ''])
+  ])
+];
+
+const changeReportText = (diffs: DeviceDiff[], label: string): string => {
+  const lines = diffs.map(d => {
+    const model = cleanModel((d.after || d.before)!.modelDesc);
+    if (d.status === 'added') return `${model} ${d.imei}\n  Not in ${label}`;
+    if (d.status === 'removed') return `${model} ${d.imei}\n  Only in ${label}`;
+    return `${model} ${d.imei}\n${d.changes.map(c => `  ${describeChange(c)}`).join('\n')}`;
+  });
+  return [`Changes since ${label} (${diffs.length})`, ...lines].join('\n\n');
+};
+
+// --- PRICING & VALUATION ---
+
+const PRICE_TABLE_KEY = 'sickw-price-table';
+
+const PRICE_RULE_KEYS: { key: Exclude<keyof PriceRule, 'id' | 'price'>; label: string }[] = [
+  { key: 'modelFamily', label: 'Model Family' },
+  { key: 'storage', label: 'Storage' },
+  { key: 'group', label: 'Group' },
+  { key: 'grade', label: 'Grade' },
+  { key: 'icloud', label: 'iCloud' },
+  { key: 'active', label: 'State' }
+];
+
+const getPriceKeyValue = (device: Device, key: typeof PRICE_RULE_KEYS[number]['key']): string => {
+  switch (key) {
+    case 'modelFamily': return getModelFamily(device.modelDesc);
+    case 'storage': return getStorage(device.modelDesc);
+    case 'group': return device.group;
+    case 'grade': return device.annotation?.grade || '';
+    case 'icloud': return device.icloudLock || '';
+    case 'active': return device.isActive ? 'Active' : 'Inactive';
+  }
+};
+
+const findPriceRule = (device: Device, table: PriceRule[]): PriceRule | undefined => {
+  let best: PriceRule | undefined;
+  let bestScore = -1;
+  table.forEach(rule => {
+    let score = 0;
+    for (const { key } of PRICE_RULE_KEYS) {
+      const want = rule[key].trim().toLowerCase();
+      if (!want) continue;
+      if (want !== getPriceKeyValue(device, key).toLowerCase()) return;
+      score++;
+    }
+    if (score > bestScore) { best = rule; bestScore = score; } // Ties keep the earlier row
+  });
+  return best;
+};
+
+const valueDevice = (device: Device, table: PriceRule[]): DeviceValuation => {
+  if (device.annotation?.priceOverride !== undefined) return { price: device.annotation.priceOverride, source: 'override' };
+  const rule = findPriceRule(device, table);
+  return rule ? { price: rule.price, source: 'table' } : { price: null, source: 'none' };
+};
+
+const sumValuation = (label: string, devices: Device[], table: PriceRule[], color?: string): ValuationLine => {
+  let priced = 0;
+  let total = 0;
+  devices.forEach(d => {
+    const { price } = valueDevice(d, table);
+    if (price === null) return;
+    priced++;
+    total += price;
+  });
+  return { label, color, count: devices.length, priced, total };
+};
+
+const formatMoney = (amount: number) => amount.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
+
+const priceTableToCsv = (table: PriceRule[]): string => toCsv([
+  [...PRICE_RULE_KEYS.map(k => k.label), 'Price'],
+  ...table.map(rule => [...PRICE_RULE_KEYS.map(k => rule[k.key]), String(rule.price)])
+]);
+
+// Columns are matched by header label so a sheet with reordered or extra columns still imports
+const parsePriceTableCsv = (text: string): { table: PriceRule[], skipped: number } => {
+  const rows = parseCsvRows(text, detectCsvDelimiter(text));
+  const headers = (rows[0] || []).map(h => h.trim().toLowerCase());
+  const priceCol = headers.indexOf('price');
+  if (priceCol === -1) throw new Error('The price table needs a "Price" column in its header row.');
+  const cols = PRICE_RULE_KEYS.map(k => ({ key: k.key, col: headers.indexOf(k.label.toLowerCase()) }));
+
+  let skipped = 0;
+  const table: PriceRule[] = [];
+  rows.slice(1).forEach(row => {
+    const price = parseFloat((row[priceCol] || '').replace(/[^0-9.-]/g, ''));
+    if (isNaN(price)) { skipped++; return; }
+    const rule = { id: generateId(), price } as PriceRule;
+    cols.forEach(({ key, col }) => { rule[key] = col === -1 ? '' : (row[col] || '').trim(); });
+    table.push(rule);
+  });
+  return { table, skipped };
+};
+
+const PRICE_RULE_STRING_FIELDS = ['id', 'modelFamily', 'storage', 'group', 'grade', 'icloud', 'active'] as const;
+
+const isPriceRule = (value: unknown): value is PriceRule => {
+  const rule = value as PriceRule;
+  return !!rule && typeof rule === 'object' && PRICE_RULE_STRING_FIELDS.every(key => typeof rule[key] === 'string')
+    && typeof rule.price === 'number' && isFinite(rule.price);
+};
+
+// Damaged rows are dropped so the rest of the table still prices the lot
+const loadPriceTable = (): PriceRule[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRICE_TABLE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isPriceRule) : [];
+  } catch {
+    return [];
+  }
+};
+
 // --- HELPER FUNCTIONS ---
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      // Remove data URL prefix (e.g., "data:image/jpeg;base64,")
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      // Remove data URL prefix (e.g., "data:image/jpeg;base64,")
+      const base64 = result.split(',')[1];
+      resolve(base64);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+const fileToText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsText(file);
+  });
+};
+
+const parseReportText = (text: string, fileName: string, isPaste = false): ParsedFile => {
+  const { parser, devices, warnings } = parseReport(text, isPaste ? undefined : fileName);
+  return {
+    fileName,
+    format: parser.label,
+    text,
+    devices: devices.map(d => ({ ...d, sourceFile: fileName })),
+    warnings
+  };
+};
+
+// Reads every file, collecting per-file errors so one bad file doesn't block the rest
+const readReportFiles = async (fileList: FileList | File[]): Promise<{ parsed: ParsedFile[]; errors: string[] }> => {
+  const files = Array.from(fileList) as File[];
+  const results = await Promise.allSettled(files.map(async file => parseReportText(await fileToText(file), file.name)));
+  const parsed: ParsedFile[] = [];
+  const errors: string[] = [];
+  results.forEach(r => {
+    if (r.status === 'fulfilled') parsed.push(r.value);
+    else errors.push(r.reason instanceof Error ? r.reason.message : String(r.reason));
+  });
+  return { parsed, errors };
+};
+
+const REPORT_FILE_ACCEPT = ".html,.htm,.txt,.csv";
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// --- SESSION STORAGE (IndexedDB) ---
+
+const DB_NAME = 'sickw-orders';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const ANNOTATION_STORE = 'annotations';
+
+const openDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ANNOTATION_STORE)) {
+        db.createObjectStore(ANNOTATION_STORE, { keyPath: 'imei' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runStore = async <T,>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+};
+
+const saveSession = (session: StoredSession) => runStore(SESSION_STORE, 'readwrite', store => store.put(session));
+
+const loadSession = (id: string) => runStore<StoredSession | undefined>(SESSION_STORE, 'readonly', store => store.get(id));
+
+const deleteSession = (id: string) => runStore(SESSION_STORE, 'readwrite', store => store.delete(id));
+
+const listSessions = async (): Promise<StoredSession[]> => {
+  const sessions = await runStore<StoredSession[]>(SESSION_STORE, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// --- ANNOTATIONS ---
+// Stored apart from sessions, keyed by IMEI, so notes follow a device into any later upload
+
+const ANNOTATION_GRADES = ['A+', 'A', 'B+', 'B', 'C', 'D', 'For Parts'];
+
+const isEmptyAnnotation = (a: DeviceAnnotation): boolean => {
+  return !a.grade && a.batteryHealth === undefined && a.purchasePrice === undefined && a.salePrice === undefined
+    && a.priceOverride === undefined && !a.buyer && !a.notes && a.tags.length === 0;
+};
+
+const attachAnnotation = (device: Device, annotations: Record<string, DeviceAnnotation>): Device => {
+  const annotation = annotations[device.imei];
+  return annotation === device.annotation ? device : { ...device, annotation };
+};
+
+const attachAnnotations = (devices: Device[], annotations: Record<string, DeviceAnnotation>): Device[] => {
+  return devices.map(d => attachAnnotation(d, annotations));
+};
+
+const saveAnnotation = (annotation: DeviceAnnotation) => runStore(ANNOTATION_STORE, 'readwrite', store => store.put(annotation));
+
+const deleteAnnotation = (imei: string) => runStore(ANNOTATION_STORE, 'readwrite', store => store.delete(imei));
+
+// Notes are typed a keystroke at a time; they're written once the typing pauses
+const ANNOTATION_SAVE_DELAY_MS = 600;
+
+const loadAnnotations = async (): Promise<Record<string, DeviceAnnotation>> => {
+  const all = await runStore<DeviceAnnotation[]>(ANNOTATION_STORE, 'readonly', store => store.getAll());
+  return Object.fromEntries(all.map(a => [a.imei, a]));
+};
+
+// --- SESSION BUNDLES & SHARE LINKS ---
+
+const SESSION_BUNDLE_FORMAT = 'sickw-session-bundle';
+const SESSION_BUNDLE_VERSION = 1;
+
+const buildSessionBundle = async (session: StoredSession, annotations: Record<string, DeviceAnnotation>, exportTemplate: ExportTemplate): Promise<SessionBundle> => ({
+  format: SESSION_BUNDLE_FORMAT,
+  version: SESSION_BUNDLE_VERSION,
+  exportedAt: Date.now(),
+  session: {
+    ...session,
+    manualFixQueue: await Promise.all(session.manualFixQueue.map(async ({ file, ...item }) => ({
+      ...item,
+      fileName: file.name,
+      mimeType: file.type,
+      data: await fileToBase64(file)
+    })))
+  },
+  annotations: session.devices.map(d => annotations[d.imei]).filter(Boolean),
+  exportTemplate
+});
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const parseSessionBundle = (text: string): SessionBundle => {
+  let bundle: SessionBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a session bundle (not valid JSON).');
+  }
+  if (bundle?.format !== SESSION_BUNDLE_FORMAT) throw new Error('This file is not a session bundle.');
+  if (bundle.version > SESSION_BUNDLE_VERSION) throw new Error('This bundle was exported by a newer version of the app. Update and try again.');
+  if (!Array.isArray(bundle.session?.devices)) throw new Error('This bundle has no devices.');
+  return bundle;
+};
+
+// Photos awaiting review travel as base64 and come back as Files
+const unbundleSession = (bundle: SessionBundle): StoredSession => ({
+  ...bundle.session,
+  manualFixQueue: (bundle.session.manualFixQueue || []).map(({ fileName, mimeType, data, ...item }) => ({
+    ...item,
+    file: new File([base64ToBytes(data)], fileName, { type: mimeType })
+  }))
+});
+
+const SHARE_LINK_PREFIX = '#view=';
+
+// Longer links get cut off by chat apps and mail clients; bigger orders should go as a bundle file
+const SHARE_LINK_MAX_LENGTH = 32000;
+
+const bytesToBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const base64UrlToBytes = (text: string): Uint8Array => base64ToBytes(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+const encodeSharedOrder = async (name: string, devices: Device[], annotations: Record<string, DeviceAnnotation>): Promise<string> => {
+  const order: SharedOrder = {
+    name,
+    text: devices.map(d => toKeyValueText(d.imei, d.rawText)).join('\n\n'),
+    annotations: devices.map(d => annotations[d.imei]).filter(Boolean)
+  };
+  const stream = new Blob([JSON.stringify(order)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return `${window.location.origin}${window.location.pathname}${SHARE_LINK_PREFIX}${bytesToBase64Url(bytes)}`;
+};
+
+// A link decompresses to far more than its own length; stop early rather than let a crafted one fill memory
+const SHARED_ORDER_MAX_BYTES = 8 * 1024 * 1024;
+
+const decodeSharedOrder = async (fragment: string): Promise<SharedOrder> => {
+  const reader = new Blob([base64UrlToBytes(fragment)]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    size += next.value.length;
+    if (size > SHARED_ORDER_MAX_BYTES) {
+      await reader.cancel();
+      throw new Error('Share link is too large');
+    }
+    chunks.push(next.value);
+  }
+  const order: SharedOrder = JSON.parse(await new Blob(chunks).text());
+  if (typeof order?.text !== 'string' || !Array.isArray(order.annotations)) throw new Error('Share link is incomplete');
+  return order;
+};
+
+// --- BARCODE SCANNING ---
+
+type FrameDecoder = (canvas: HTMLCanvasElement) => Promise<string[]>;
+
+const SCAN_FORMATS = ['code_128', 'qr_code', 'data_matrix'];
+
+// Uses the native BarcodeDetector where the browser has one, otherwise ZXing; both run on-device
+const createFrameDecoder = async (): Promise<FrameDecoder> => {
+  const NativeDetector = window.BarcodeDetector;
+  if (NativeDetector) {
+    const supported = await NativeDetector.getSupportedFormats();
+    const formats = SCAN_FORMATS.filter(f => supported.includes(f));
+    if (formats.length === SCAN_FORMATS.length) {
+      const detector = new NativeDetector({ formats });
+      return async (canvas) => (await detector.detect(canvas)).map(b => b.rawValue);
+    }
+  }
+
+  const ZXing = await import('@zxing/library');
+  const hints = new Map();
+  hints.set(ZXing.DecodeHintType.POSSIBLE_FORMATS, [ZXing.BarcodeFormat.CODE_128, ZXing.BarcodeFormat.QR_CODE, ZXing.BarcodeFormat.DATA_MATRIX]);
+  hints.set(ZXing.DecodeHintType.TRY_HARDER, true);
+  const reader = new ZXing.MultiFormatReader();
+  reader.setHints(hints);
+  return async (canvas) => {
+    try {
+      const bitmap = new ZXing.BinaryBitmap(new ZXing.HybridBinarizer(new ZXing.HTMLCanvasElementLuminanceSource(canvas)));
+      return [reader.decodeWithState(bitmap).getText()];
+    } catch {
+      return []; // NotFoundException: nothing readable in this frame
+    }
+  };
+};
+
+// Box labels and QR payloads may carry several numbers; keep the standalone 15-digit runs
+const extractImeiCandidates = (text: string): string[] => {
+  return Array.from(new Set(text.match(/(?<!\d)\d{15}(?!\d)/g) || []));
+};
+
+let scanAudioContext: AudioContext | null = null;
+
+const playScanTone = (ok: boolean) => {
+  try {
+    scanAudioContext = scanAudioContext || new AudioContext();
+    const osc = scanAudioContext.createOscillator();
+    const gain = scanAudioContext.createGain();
+    osc.frequency.value = ok ? 1200 : 220;
+    gain.gain.value = 0.15;
+    osc.connect(gain);
+    gain.connect(scanAudioContext.destination);
+    osc.start();
+    osc.stop(scanAudioContext.currentTime + (ok ? 0.1 : 0.3));
+  } catch {
+    // Audio is best-effort feedback
+  }
+  navigator.vibrate?.(ok ? 60 : [80, 60, 80]);
+};
+
+// --- IMAGE EXTRACTION PROVIDERS ---
+
+const normalizeIdentifier = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+// Maps every IMEI, IMEI2 and serial in the order to its device so a photo of any label can be matched
+const buildIdentifierIndex = (devices: Device[]): Map<string, IdentifierHit> => {
+  const index = new Map<string, IdentifierHit>();
+  devices.forEach(device => {
+    ([['imei', device.imei], ['imei2', device.imei2], ['serial', device.serial]] as [IdentifierKind, string | undefined][]).forEach(([field, value]) => {
+      if (value && !index.has(normalizeIdentifier(value))) index.set(normalizeIdentifier(value), { device, field });
+    });
+  });
+  return index;
+};
+
+const isImeiKind = (kind: IdentifierKind) => kind === 'imei' || kind === 'imei2';
+
+// Attaches device matches and ranks matched, then Luhn-valid, then most confident reads first
+const matchIdentifiers = (identifiers: ExtractedIdentifier[], index: Map<string, IdentifierHit>): ExtractedIdentifier[] => {
+  const best = new Map<string, ExtractedIdentifier>();
+  identifiers.forEach(raw => {
+    const value = normalizeIdentifier(raw.value);
+    if (!value) return;
+    const hit = index.get(value);
+    const id: ExtractedIdentifier = { ...raw, value, matchedImei: hit?.device.imei, matchedField: hit?.field };
+    const prev = best.get(value);
+    if (!prev || id.confidence > prev.confidence) best.set(value, prev?.box && !id.box ? { ...id, box: prev.box } : id);
+  });
+  const rank = (id: ExtractedIdentifier) => (id.matchedImei ? 4 : 0) + (isImeiKind(id.kind) && isValidImei(id.value) ? 2 : 0) + id.confidence;
+  return Array.from(best.values()).sort((a, b) => rank(b) - rank(a));
+};
+
+interface OcrLine {
+  text: string;
+  confidence: number; // 0-100, as reported by Tesseract
+  bbox?: { x0: number, y0: number, x1: number, y1: number };
+}
+
+const IMEI_LABEL_PATTERN = /IMEI|1MEI|lMEI|MEID/i;
+const SERIAL_LABEL_PATTERN = /Serial|S\/N|\bSN\b/i;
+
+// Pulls 15-digit runs (often grouped, "35 123456 789012 3") and labelled serials out of OCR lines
+const findOcrIdentifiers = (lines: OcrLine[], width = 0, height = 0): ExtractedIdentifier[] => {
+  const identifiers: ExtractedIdentifier[] = [];
+  lines.forEach((line, i) => {
+    const label = IMEI_LABEL_PATTERN.test(line.text) || SERIAL_LABEL_PATTERN.test(line.text) ? line.text : (lines[i - 1]?.text || '');
+    const nearImeiLabel = IMEI_LABEL_PATTERN.test(label);
+    const kind: IdentifierKind = /IMEI\s*2/i.test(label) ? 'imei2' : 'imei';
+    const box = line.bbox && width && height
+      ? { x: line.bbox.x0 / width, y: line.bbox.y0 / height, width: (line.bbox.x1 - line.bbox.x0) / width, height: (line.bbox.y1 - line.bbox.y0) / height }
+      : undefined;
+    const confidence = Math.max(0, Math.min(1, line.confidence / 100));
+
+    // OCR commonly swaps these letters in for digits inside numeric runs
+    const cleaned = line.text.replace(/(?<=\d[\s-]?)[OoDQ](?=[\s-]?\d)/g, '0').replace(/(?<=\d[\s-]?)[Il|](?=[\s-]?\d)/g, '1');
+    (cleaned.match(/(?<![\d])(?:\d[\s-]?){14}\d(?![\d])/g) || []).forEach(run => {
+      identifiers.push({ kind, value: run.replace(/\D/g, ''), confidence: nearImeiLabel ? confidence : confidence * 0.7, box });
+    });
+
+    if (SERIAL_LABEL_PATTERN.test(label)) {
+      const rest = line.text.replace(/.*?(Serial(\s*No\.?|\s*Number)?|S\/N|\bSN\b)\s*[:#]?/i, '');
+      (rest.match(/\b(?=[A-Z0-9]*\d)(?=[A-Z0-9]*[A-Z])[A-Z0-9]{8,14}\b/g) || []).forEach(value => {
+        identifiers.push({ kind: 'serial', value, confidence, box });
+      });
+    }
+  });
+  return identifiers;
+};
+
+const getImageSize = async (file: File) => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return { width: 0, height: 0 };
+  }
+};
+
+let ocrWorkerPromise: Promise<Tesseract.Worker> | null = null;
+
+// One shared Tesseract worker. The worker, WASM core and language data are served from ocr/ (see vite.config.ts),
+// never a CDN, so the service worker's precache covers them. Paths are absolute because the worker starts from a blob URL
+const getOcrWorker = () => {
+  if (!ocrWorkerPromise) {
+    const ocrPath = new URL(`${import.meta.env.BASE_URL}ocr`, window.location.href).href;
+    ocrWorkerPromise = import('tesseract.js').then(({ createWorker }) => createWorker('eng', undefined, {
+      workerPath: `${ocrPath}/worker.min.js`,
+      corePath: ocrPath,
+      langPath: ocrPath
+    }));
+    ocrWorkerPromise.catch(() => { ocrWorkerPromise = null; });
+  }
+  return ocrWorkerPromise;
+};
+
+const localOcrProvider: ExtractionProvider = {
+  id: 'local-ocr',
+  label: 'On-device OCR',
+  isAvailable: () => true,
+  extract: async (file, index) => {
+    const worker = await getOcrWorker();
+    const [{ data }, size] = await Promise.all([worker.recognize(file, {}, { text: true, blocks: true }), getImageSize(file)]);
+    const lines: OcrLine[] = (data.blocks || []).flatMap((b: Tesseract.Block) => b.paragraphs.flatMap((p: Tesseract.Paragraph) => p.lines));
+    const ocrLines = lines.length > 0 ? lines : (data.text || '').split(/\r?\n/).map((text: string) => ({ text, confidence: data.confidence ?? 50 }));
+    return { identifiers: matchIdentifiers(findOcrIdentifiers(ocrLines, size.width, size.height), index), provider: 'local-ocr' };
+  }
+};
+
+// The Gemini key lives on the app server (server.mjs); the browser only ever sees this endpoint
+const EXTRACT_ENDPOINT = '/api/extract';
+
+const geminiProvider: ExtractionProvider = {
+  id: 'gemini',
+  label: 'Gemini (online)',
+  isAvailable: () => navigator.onLine,
+  extract: async (file, index, signal) => {
+    const response = await fetch(EXTRACT_ENDPOINT, {
+      method: 'POST',
+      signal, // Cancelling the batch frees the queue slot instead of waiting on the model
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName: file.name, mimeType: file.type, data: await fileToBase64(file) })
+    });
+    const parsed: { identifiers?: RawExtractedIdentifier[]; error?: string } = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw Object.assign(new Error(parsed.error || `Extraction server responded ${response.status}`), { status: response.status });
+    }
+
+    const identifiers: ExtractedIdentifier[] = (parsed.identifiers || []).map(raw => {
+      const [ymin, xmin, ymax, xmax] = Array.isArray(raw.box_2d) && raw.box_2d.length === 4 ? raw.box_2d.map(Number) : [];
+      return {
+        kind: raw.kind === 'imei2' || raw.kind === 'serial' ? raw.kind : 'imei',
+        value: String(raw.value || ''),
+        confidence: Math.max(0, Math.min(1, Number(raw.confidence) || 0)),
+        box: xmax > xmin && ymax > ymin ? { x: xmin / 1000, y: ymin / 1000, width: (xmax - xmin) / 1000, height: (ymax - ymin) / 1000 } : undefined
+      };
+    });
+    return { identifiers: matchIdentifiers(identifiers, index), provider: 'gemini' };
+  }
+};
+
+const EXTRACTION_PROVIDERS: ExtractionProvider[] = [localOcrProvider, geminiProvider];
+
+const EXTRACTION_PROVIDER_KEY = 'sickw-extraction-provider';
+
+const RATE_LIMIT_RETRIES = 4;
+
+const isRateLimitError = (error: unknown): boolean => {
+  const { status, code, message } = (error && typeof error === 'object' ? error : {}) as { status?: unknown; code?: unknown; message?: unknown };
+  return (status ?? code) === 429 || /\b429\b|rate.?limit|quota|RESOURCE_EXHAUSTED/i.test(String(message || error));
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Cancelled', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Cancelled', 'AbortError'));
+  }, { once: true });
+});
+
+// Retries rate-limited calls with exponential backoff (2s, 4s, 8s, 16s plus jitter); other errors surface immediately
+const withBackoff = async <T,>(action: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await action();
+    } catch (error) {
+      if (!isRateLimitError(error) || attempt >= RATE_LIMIT_RETRIES) throw error;
+      await sleep(2000 * 2 ** attempt + Math.random() * 500, signal);
+    }
+  }
+};
+
+// Gemini is opt-in; without the app server, network or quota it falls back to on-device OCR
+const extractIdentifiers = async (file: File, index: Map<string, IdentifierHit>, providerId: ExtractionProviderId, signal?: AbortSignal): Promise<ExtractionResult> => {
+  const preferred = EXTRACTION_PROVIDERS.find(p => p.id === providerId) || localOcrProvider;
+  if (preferred.id !== localOcrProvider.id && preferred.isAvailable()) {
+    try {
+      return await withBackoff(() => preferred.extract(file, index, signal), signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`${preferred.label} Error, falling back to OCR:`, error);
+    }
+  }
+  return localOcrProvider.extract(file, index);
+};
+
+const IMAGE_QUEUE_CONCURRENCY = 3;
+
+const IMAGE_JOB_STATUS_LABELS: Record<ImageJobStatus, string> = {
+  pending: 'Queued',
+  reading: 'Reading',
+  matched: 'Matched',
+  review: 'Needs Review',
+  error: 'Error',
+  cancelled: 'Cancelled'
+};
+
+const isImageJobActive = (job: ImageJob) => job.status === 'pending' || job.status === 'reading';
+
+// Runs image jobs with bounded concurrency. Cancelling aborts the current batch; results that arrive afterwards are dropped
+const createImageQueue = (
+  run: (job: ImageJob, signal: AbortSignal) => Promise<Pick<ImageJob, 'status' | 'imeis'>>,
+  onChange: (jobs: ImageJob[]) => void,
+  concurrency = IMAGE_QUEUE_CONCURRENCY
+): ImageQueue => {
+  let jobs: ImageJob[] = [];
+  let active = 0;
+  let controller = new AbortController();
+
+  const update = (id: string, patch: Partial<ImageJob>) => {
+    jobs = jobs.map(j => j.id === id ? { ...j, ...patch } : j);
+  };
+
+  const pump = () => {
+    while (active < concurrency) {
+      const job = jobs.find(j => j.status === 'pending');
+      if (!job) break;
+      const signal = controller.signal;
+      active++;
+      update(job.id, { status: 'reading', error: undefined });
+      run(job, signal)
+        .then(result => { if (!signal.aborted) update(job.id, result); })
+        .catch(error => { if (!signal.aborted) update(job.id, { status: 'error', error: error?.message || String(error) }); })
+        .finally(() => {
+          active--;
+          pump();
+          onChange(jobs);
+        });
+    }
+    onChange(jobs);
+  };
+
+  return {
+    add: (files) => {
+      jobs = [...jobs, ...files.map(file => ({ id: generateId(), file, status: 'pending' as ImageJobStatus }))];
+      pump();
+    },
+    retry: (ids) => {
+      jobs = jobs.map(j => ids.includes(j.id) && !isImageJobActive(j) ? { ...j, status: 'pending' as ImageJobStatus, error: undefined } : j);
+      pump();
+    },
+    cancel: () => {
+      controller.abort();
+      controller = new AbortController();
+      jobs = jobs.map(j => isImageJobActive(j) ? { ...j, status: 'cancelled' as ImageJobStatus } : j);
+      onChange(jobs);
+    },
+    clear: () => {
+      jobs = jobs.filter(isImageJobActive);
+      onChange(jobs);
+    }
+  };
+};
+
+// --- SICKW API ---
+
+const SICKW_SETTINGS_KEY = 'sickw-api-settings';
+
+// The app server forwards /api/sickw to sickw.com, which doesn't allow browser requests itself
+const DEFAULT_SICKW_SETTINGS: SickwSettings = { apiUrl: '/api/sickw', apiKey: '', serviceId: '' };
+
+const loadSickwSettings = (): SickwSettings => {
+  try {
+    const stored = localStorage.getItem(SICKW_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SICKW_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SICKW_SETTINGS;
+  } catch {
+    return DEFAULT_SICKW_SETTINGS;
+  }
+};
+
+// Errors that will fail every remaining check too, so the queue stops instead of burning through it
+const isFatalSickwError = (message: string): boolean => /api key|balance|funds|credit|banned/i.test(message);
+
+// Sickw answers JSON for format=json, but balance and some errors come back as bare text
+const sickwRequest = async (settings: SickwSettings, params: Record<string, string>, signal?: AbortSignal): Promise<SickwResponse> => {
+  if (!settings.apiKey) throw new Error('Add your Sickw API key first');
+  const url = new URL(settings.apiUrl, window.location.href);
+  Object.entries({ format: 'json', key: settings.apiKey, ...params }).forEach(([k, v]) => url.searchParams.set(k, v));
+
+  const response = await fetch(url.toString(), { signal });
+  const text = await response.text();
+  if (!response.ok) {
+    throw Object.assign(new Error(`Sickw API responded ${response.status}: ${text.slice(0, 120)}`), { status: response.status });
+  }
+  try {
+    const data: unknown = JSON.parse(text);
+    // A bare balance like "10.00" also parses, as a number; keep it as the text it was
+    if (data && typeof data === 'object') return data as SickwRecord | SickwRecord[];
+  } catch {
+    // Not JSON
+  }
+  return text.trim();
+};
+
+const toPrice = (raw: unknown): number => {
+  const n = parseFloat(String(raw ?? '').replace(/[^\d.]/g, ''));
+  return isNaN(n) ? 0 : n;
+};
+
+const fetchSickwServices = async (settings: SickwSettings): Promise<SickwService[]> => {
+  const data = await sickwRequest(settings, { action: 'services' });
+  const list: unknown[] = Array.isArray(data) ? data
+    : typeof data === 'string' ? []
+    : Array.isArray(data.services) ? data.services : Object.values(data);
+  return list
+    .filter((s): s is SickwRecord => !!s && typeof s === 'object')
+    .map(s => ({ id: String(s.service ?? s.id ?? ''), name: String(s.name || s.title || `Service ${s.service ?? s.id}`), price: toPrice(s.price) }))
+    .filter(s => s.id);
+};
+
+const fetchSickwBalance = async (settings: SickwSettings): Promise<number> => {
+  const data = await sickwRequest(settings, { action: 'balance' });
+  return toPrice(typeof data === 'string' || Array.isArray(data) ? data : data.balance);
+};
+
+const runSickwCheck = async (settings: SickwSettings, imei: string, serviceId: string, signal?: AbortSignal): Promise<{ result: string; cost: number; balance: number | null }> => {
+  const data = await sickwRequest(settings, { imei, service: serviceId }, signal);
+  if (typeof data === 'string' || Array.isArray(data) || data.status !== 'success') {
+    const message = typeof data === 'string' ? data : Array.isArray(data) ? 'Unexpected response' : String(data.result || data.error || data.status || 'Unknown error');
+    throw new Error(message.replace(/<[^>]+>/g, ' ').trim() || 'Empty response');
+  }
+  return {
+    result: toKeyValueText(imei, String(data.result || '')),
+    cost: toPrice(data.price),
+    balance: data.balance !== undefined ? toPrice(data.balance) : null
+  };
+};
+
+const CHECK_QUEUE_CONCURRENCY = 2;
+
+const CHECK_JOB_STATUS_LABELS: Record<CheckJobStatus, string> = {
+  pending: 'Queued',
+  running: 'Checking',
+  done: 'Done',
+  error: 'Error',
+  cancelled: 'Cancelled'
+};
+
+const isCheckJobActive = (job: CheckJob) => job.status === 'pending' || job.status === 'running';
+
+// Same shape as the image queue; a fatal error (bad key, no balance) cancels what is still queued
+const createCheckQueue = (
+  run: (job: CheckJob, signal: AbortSignal) => Promise<Pick<CheckJob, 'result' | 'cost'>>,
+  onChange: (jobs: CheckJob[]) => void,
+  concurrency = CHECK_QUEUE_CONCURRENCY
+): CheckQueue => {
+  let jobs: CheckJob[] = [];
+  let active = 0;
+  let controller = new AbortController();
+
+  const update = (id: string, patch: Partial<CheckJob>) => {
+    jobs = jobs.map(j => j.id === id ? { ...j, ...patch } : j);
+  };
+
+  const stopQueued = () => {
+    jobs = jobs.map(j => j.status === 'pending' ? { ...j, status: 'cancelled' as CheckJobStatus } : j);
+  };
+
+  const pump = () => {
+    while (active < concurrency) {
+      const job = jobs.find(j => j.status === 'pending');
+      if (!job) break;
+      const signal = controller.signal;
+      active++;
+      update(job.id, { status: 'running', error: undefined });
+      run(job, signal)
+        .then(result => { if (!signal.aborted) update(job.id, { ...result, status: 'done' }); })
+        .catch(error => {
+          if (signal.aborted) return;
+          const message = error?.message || String(error);
+          update(job.id, { status: 'error', error: message });
+          if (isFatalSickwError(message)) stopQueued();
+        })
+        .finally(() => {
+          active--;
+          pump();
+          onChange(jobs);
+        });
+    }
+    onChange(jobs);
+  };
+
+  return {
+    add: (imeis, serviceId) => {
+      jobs = [...jobs, ...imeis.map(imei => ({ id: generateId(), imei, serviceId, status: 'pending' as CheckJobStatus }))];
+      pump();
+    },
+    retry: (ids) => {
+      jobs = jobs.map(j => ids.includes(j.id) && !isCheckJobActive(j) && j.status !== 'done' ? { ...j, status: 'pending' as CheckJobStatus, error: undefined } : j);
+      pump();
+    },
+    cancel: () => {
+      controller.abort();
+      controller = new AbortController();
+      jobs = jobs.map(j => isCheckJobActive(j) ? { ...j, status: 'cancelled' as CheckJobStatus } : j);
+      onChange(jobs);
+    },
+    clear: () => {
+      jobs = jobs.filter(isCheckJobActive);
+      onChange(jobs);
+    }
+  };
+};
+
+// --- SCAN MODE & SHORTCUTS ---
+
+// 14-digit scans are IMEIs missing their check digit; everything else is matched like a photo read
+const normalizeScanValue = (raw: string): string => {
+  const trimmed = raw.trim();
+  return /^\d{14}$/.test(trimmed) ? checkImei(trimmed).imei : normalizeIdentifier(trimmed);
+};
+
+// One scanner burst is one lookup. Payloads with extra text (QR labels) fall back to the first IMEI inside them
+const lookupScan = (raw: string, index: Map<string, IdentifierHit>, log: CheckInScan[]): CheckInScan => {
+  let value = normalizeScanValue(raw);
+  let hit = index.get(value);
+  if (!hit) {
+    const [candidate] = extractImeiCandidates(raw);
+    if (candidate && index.has(candidate)) {
+      value = candidate;
+      hit = index.get(candidate);
+    }
+  }
+  return { value, imei: hit?.device.imei, at: Date.now(), duplicate: log.some(s => s.value === value) };
+};
+
+const KEYBOARD_SHORTCUTS: { keys: string[]; label: string }[] = [
+  { keys: ['/'], label: 'Focus the search box' },
+  { keys: ['S'], label: 'Turn scan mode on or off' },
+  { keys: ['E'], label: 'Open export' },
+  { keys: ['J', '→'], label: 'Next device' },
+  { keys: ['K', '←'], label: 'Previous device' },
+  { keys: ['C'], label: 'Copy the IMEI of the open or last scanned device' },
+  { keys: ['Esc'], label: 'Close the top window' },
+  { keys: ['?'], label: 'Show these shortcuts' }
+];
+
+// Shortcuts stay out of the way while typing in a field
+const isTypingTarget = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  return !!el && (['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName) || el.isContentEditable);
+};
+
+// --- OFFLINE & INSTALL (PWA) ---
+
+// Only production builds have a sw.js (emitted by the plugin in vite.config.ts)
+const registerServiceWorker = async (onUpdateReady: (apply: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL, updateViaCache: 'none' });
+
+  // The first install takes over quietly; only a replacement for a running version waits for the user
+  let applying = false;
+  const offer = (worker: ServiceWorker) => {
+    if (!navigator.serviceWorker.controller) return;
+    onUpdateReady(() => {
+      applying = true;
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+  if (registration.waiting) offer(registration.waiting);
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing;
+    worker?.addEventListener('statechange', () => { if (worker.state === 'installed') offer(worker); });
+  });
+  navigator.serviceWorker.addEventListener('controllerchange', () => { if (applying) window.location.reload(); });
+
+  // Phones keep the app open all shift, so look for a new deploy whenever it comes back to the foreground
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') registration.update().catch(() => {});
+  });
+};
+
+const SHARE_CACHE = 'sickw-share'; // Filled by the service worker's share_target handler
+
+// Files shared to the app from another app; each is removed once read
+const readSharedFiles = async (): Promise<File[]> => {
+  if (!('caches' in window)) return [];
+  const cache = await caches.open(SHARE_CACHE);
+  const requests = await cache.keys();
+  const files = await Promise.all(requests.map(async request => {
+    const response = await cache.match(request);
+    await cache.delete(request);
+    if (!response) return null;
+    const name = decodeURIComponent(response.headers.get('X-File-Name') || 'shared-file');
+    return new File([await response.blob()], name, { type: response.headers.get('Content-Type') || '' });
+  }));
+  return files.filter((f): f is File => !!f);
+};
+
+// --- COMPONENTS ---
+
+const FileUpload = ({ onUpload }: { onUpload: (files: ParsedFile[]) => void }) => {
+  const [showPaste, setShowPaste] = useState(false);
+  const [pasteText, setPasteText] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+    const { parsed, errors } = await readReportFiles(e.target.files);
+    if (errors.length > 0) alert(errors.join('\n\n'));
+    if (parsed.length > 0) onUpload(parsed);
+    e.target.value = '';
+  };
+
+  const handlePaste = () => {
+    try {
+      onUpload([parseReportText(pasteText, 'Pasted text', true)]);
+      setPasteText('');
+      setShowPaste(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div>
+      <div className={`flex flex-col items-center justify-center h-48 border-2 border-dashed border-blue-400/50 rounded-3xl ${GLASS_INPUT} hover:bg-blue-50/50 dark:hover:bg-blue-900/20 transition-all cursor-pointer relative group`}>
+        <div className="text-center z-10 p-4">
+          <svg className="mx-auto h-12 w-12 text-blue-500 group-hover:scale-110 transition-transform duration-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+          </svg>
+          <p className="mt-3 text-sm font-medium text-gray-700 dark:text-gray-200">
+            Upload Sickw Report
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">HTML, CSV or TXT · Tap or Drag Files Here</p>
+        </div>
+        <input type="file" accept={REPORT_FILE_ACCEPT} multiple onChange={handleFile} className="opacity-0 absolute w-full h-full cursor-pointer z-20" />
+      </div>
+      {showPaste ? (
+        <div className="mt-4 flex flex-col gap-2">
+          <textarea
+            className={`w-full p-3 h-32 ${GLASS_INPUT} font-mono text-xs text-gray-800 dark:text-gray-200 resize-none`}
+            placeholder={"IMEI: 356789012345678\nModel Description: IPHONE 13 128GB...\niCloud Lock: OFF"}
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <button onClick={() => setShowPaste(false)} className={`flex-1 py-2 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>Cancel</button>
+            <button onClick={handlePaste} disabled={!pasteText.trim()} className={`flex-1 py-2 ${GLASS_BUTTON_PRIMARY} text-sm font-bold disabled:opacity-50`}>Parse</button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={() => setShowPaste(true)} className="mt-3 text-xs font-bold text-blue-600 dark:text-blue-400 hover:underline">
+          or paste report text
+        </button>
+      )}
+    </div>
+  );
+};
+
+const SessionList = ({
+  currentId,
+  onOpen,
+  onRenamed,
+  onDeleted
+}: {
+  currentId?: string,
+  onOpen: (id: string) => void,
+  onRenamed: (id: string, name: string) => void,
+  onDeleted: (id: string) => void
+}) => {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+
+  const refresh = () => {
+    listSessions().then(setSessions).catch(err => console.error("Session List Error:", err));
+  };
+
+  useEffect(refresh, []);
+
+  const handleRename = async (session: StoredSession) => {
+    const name = window.prompt("Rename order", session.name)?.trim();
+    if (!name || name === session.name) return;
+    await saveSession({ ...session, name, updatedAt: Date.now() });
+    onRenamed(session.id, name);
+    refresh();
+  };
+
+  const handleDelete = async (session: StoredSession) => {
+    if (!window.confirm(`Delete "${session.name}"?`)) return;
+    await deleteSession(session.id);
+    onDeleted(session.id);
+    refresh();
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="mt-6 text-left">
+      <h2 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 mb-2 px-1">Saved Orders</h2>
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {sessions.map(session => (
+          <div key={session.id} className={`p-3 flex items-center gap-3 ${GLASS_INPUT} ${session.id === currentId ? 'ring-2 ring-blue-500/50' : ''}`}>
+            <button onClick={() => onOpen(session.id)} className="flex-1 min-w-0 text-left">
+              <span className="block text-sm font-bold text-gray-900 dark:text-white truncate">{session.name}</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                {session.devices.length} devices · {new Date(session.updatedAt).toLocaleString()}
+              </span>
+            </button>
+            <button onClick={() => handleRename(session)} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>
+              Rename
+            </button>
+            <button onClick={() => handleDelete(session)} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}>
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ShareOrderPanel = ({
+  name,
+  devices,
+  annotations,
+  onDownloadBundle,
+  onCopy
+}: {
+  name: string,
+  devices: Device[],
+  annotations: Record<string, DeviceAnnotation>,
+  onDownloadBundle: () => void,
+  onCopy: (text: string) => void
+}) => {
+  const [link, setLink] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    encodeSharedOrder(name, devices, annotations)
+      .then(result => { if (!cancelled) setLink(result); })
+      .catch(err => { if (!cancelled) setError(err?.message || String(err)); });
+    return () => { cancelled = true; };
+  }, [name, devices, annotations]);
+
+  const tooLong = link !== null && link.length > SHARE_LINK_MAX_LENGTH;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-bold text-gray-700 dark:text-gray-200 mb-1">Session Bundle</h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          One file with the devices, our notes on them, check-in progress, photos awaiting review and the active export template. Import it from the start screen to reopen the order exactly as it is now.
+        </p>
+        <button onClick={onDownloadBundle} className={`px-4 py-2 ${GLASS_BUTTON_PRIMARY} text-sm font-bold`}>
+          Download Bundle
+        </button>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-bold text-gray-700 dark:text-gray-200 mb-1">Read-Only Link</h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          The devices and notes are compressed into the link itself, so nothing is uploaded anywhere. Whoever opens it sees the dashboard but can't change it.
+        </p>
+        {error && <p className="text-xs text-red-500">Could not build the link: {error}</p>}
+        {!error && link === null && <p className="text-xs text-gray-400">Compressing...</p>}
+        {link !== null && (tooLong ? (
+          <p className="text-xs text-amber-600 dark:text-amber-400">
+            This order is too large for a link ({link.length.toLocaleString()} characters, limit {SHARE_LINK_MAX_LENGTH.toLocaleString()}). Share a bundle file instead.
+          </p>
+        ) : (
+          <div className="flex gap-2">
+            <input readOnly value={link} onFocus={e => e.target.select()} className={`flex-1 px-3 py-2 ${GLASS_INPUT} text-xs font-mono dark:text-white`} />
+            <button onClick={() => { onCopy(link); alert('Link copied!'); }} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+              Copy
+            </button>
+          </div>
+        ))}
+        {link !== null && !tooLong && <p className="text-xs text-gray-400 mt-1">{devices.length} devices, {link.length.toLocaleString()} characters</p>}
+      </div>
+    </div>
+  );
+};
+
+const ComparePicker = ({
+  currentId,
+  onPick
+}: {
+  currentId?: string,
+  onPick: (comparison: OrderComparison) => void
+}) => {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+
+  useEffect(() => {
+    listSessions()
+      .then(all => setSessions(all.filter(s => s.id !== currentId)))
+      .catch(err => console.error("Session List Error:", err));
+  }, [currentId]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+    const { parsed, errors } = await readReportFiles(e.target.files);
+    e.target.value = '';
+    if (errors.length > 0) alert(errors.join('\n\n'));
+    if (parsed.length === 0) return;
+    const { devices } = mergeDevices([], parsed.flatMap(f => f.devices));
+    onPick({ label: parsed.map(f => f.fileName).join(', '), previous: devices });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-300">Pick the earlier check to compare the current order against.</p>
+      <div className="relative">
+        <input type="file" multiple accept={REPORT_FILE_ACCEPT} onChange={handleFiles} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
+        <button className={`w-full py-3 ${GLASS_BUTTON_PRIMARY} text-sm font-bold`}>Upload Older Report</button>
+      </div>
+      {sessions.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 mb-2">Saved Orders</h4>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {sessions.map(session => (
+              <button
+                key={session.id}
+                onClick={() => onPick({ label: session.name, previous: session.devices })}
+                className={`w-full p-3 text-left ${GLASS_INPUT} hover:bg-white/70 dark:hover:bg-white/10`}
+              >
+                <span className="block text-sm font-bold text-gray-900 dark:text-white truncate">{session.name}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  {session.devices.length} devices · {new Date(session.updatedAt).toLocaleString()}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const OrderDiffView = ({
+  diffs,
+  label,
+  baseName,
+  onCopy,
+  onChangeBase
+}: {
+  diffs: DeviceDiff[],
+  label: string,
+  baseName: string,
+  onCopy: (text: string) => void,
+  onChangeBase: () => void
+}) => {
+  const [filterKey, setFilterKey] = useState('changed');
+  const filter = DIFF_FILTERS.find(f => f.key === filterKey) || DIFF_FILTERS[0];
+  const visible = diffs.filter(filter.test);
+
+  const downloadReport = () => {
+    downloadBlob(new Blob(['\ufeff' + toCsv(changeReportRows(visible))], { type: 'text/csv;charset=utf-8' }), `${toFileSlug(`${baseName} ${filter.label}`)}.csv`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center gap-3">
+        <p className="text-sm text-gray-600 dark:text-gray-300 truncate">Compared with <span className="font-bold">{label}</span></p>
+        <button onClick={onChangeBase} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold shrink-0`}>Change</button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {DIFF_FILTERS.map(f => {
+          const count = diffs.filter(f.test).length;
+          return (
+            <button
+              key={f.key}
+              onClick={() => setFilterKey(f.key)}
+              disabled={count === 0 && f.key !== filterKey}
+              className={`px-3 py-1 rounded-lg text-xs font-bold transition-all active:scale-95 disabled:opacity-30 ${f.key === filterKey ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : 'bg-white/50 dark:bg-white/10 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-700'}`}
+            >
+              {f.label} <span className={f.key === filterKey ? 'text-blue-100' : 'text-gray-400'}>{count}</span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {visible.map(d => (
+          <div key={d.imei} className="bg-gray-50/50 dark:bg-black/30 border border-gray-200/50 dark:border-gray-700/50 p-3 rounded-xl">
+            <div className="flex justify-between gap-3 text-sm">
+              <span className="font-bold dark:text-white truncate">{cleanModel((d.after || d.before)!.modelDesc)}</span>
+              <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{d.imei}</span>
+            </div>
+            {d.status === 'added' && <p className="text-xs text-blue-600 dark:text-blue-300 mt-1">Not in the previous order</p>}
+            {d.status === 'removed' && <p className="text-xs text-gray-500 mt-1">Missing from the current order</p>}
+            {d.changes.map(c => (
+              <p key={c.field} className="text-xs mt-1 dark:text-gray-300">
+                <span className="text-gray-500 dark:text-gray-400">{DIFF_FIELDS.find(f => f.field === c.field)!.label}:</span>{' '}
+                <span className="line-through text-red-500/80">{c.before || '(blank)'}</span> → <span className="font-bold text-green-600 dark:text-green-400">{c.after || '(blank)'}</span>
+              </p>
+            ))}
+          </div>
+        ))}
+        {visible.length === 0 && <p className="text-sm text-gray-400 text-center py-6">No devices match this filter</p>}
+      </div>
+      <div className="flex gap-3">
+        <button onClick={() => { onCopy(changeReportText(visible, label)); alert("Copied!"); }} disabled={visible.length === 0} className={`flex-1 py-3 ${GLASS_BUTTON_SECONDARY} font-bold disabled:opacity-30`}>
+          Copy Report
+        </button>
+        <button onClick={downloadReport} disabled={visible.length === 0} className={`flex-1 py-3 ${GLASS_BUTTON_PRIMARY} font-bold disabled:opacity-30`}>
+          Download CSV
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Unknown labels are summarised once at the top instead of per chunk
+const isListedWarning = (w: ParseWarning) => w.skipped || !!w.invalidImei || (!!w.missingFields && w.missingFields.length > 0);
+
+const CameraScanner = ({
+  initialImeis,
+  knownImeis,
+  onDetected,
+  onCaptureFrame,
+  onClose
+}: {
+  initialImeis: string[],
+  knownImeis: Set<string>,
+  onDetected: (imei: string) => void,
+  onCaptureFrame: (file: File) => void,
+  onClose: () => void
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const seenRef = useRef<Set<string>>(new Set(initialImeis));
+  const rejectedRef = useRef<Set<string>>(new Set());
+  const lastHitRef = useRef(Date.now());
+  const [status, setStatus] = useState('Starting camera…');
+  const [flash, setFlash] = useState<'ok' | 'dup' | 'bad' | null>(null);
+  const [scanned, setScanned] = useState<{ imei: string; inOrder: boolean }[]>([]);
+  const [showAiHint, setShowAiHint] = useState(false);
+  // The frame loop outlives renders, so it reads the latest callback and order through refs
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+  const knownImeisRef = useRef(knownImeis);
+  knownImeisRef.current = knownImeis;
+
+  const signal = (kind: 'ok' | 'dup' | 'bad') => {
+    setFlash(kind);
+    setTimeout(() => setFlash(null), 400);
+  };
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let busy = false;
+    let cancelled = false;
+
+    const handleText = (text: string) => {
+      extractImeiCandidates(text).forEach(imei => {
+        if (seenRef.current.has(imei)) {
+          signal('dup');
+          return;
+        }
+        if (!isValidImei(imei)) {
+          // Only complain once per misread value, the next frame usually reads it right
+          if (!rejectedRef.current.has(imei)) {
+            rejectedRef.current.add(imei);
+            playScanTone(false);
+            signal('bad');
+            setStatus(`Rejected ${imei}: bad check digit`);
+          }
+          return;
+        }
+        seenRef.current.add(imei);
+        lastHitRef.current = Date.now();
+        playScanTone(true);
+        signal('ok');
+        setStatus(`Added ${imei}`);
+        setShowAiHint(false);
+        setScanned(prev => [{ imei, inOrder: knownImeisRef.current.has(imei) }, ...prev]);
+        onDetectedRef.current(imei);
+      });
+    };
+
+    const start = async () => {
+      try {
+        const [decoder, media] = await Promise.all([
+          createFrameDecoder(),
+          navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1280 } }, audio: false })
+        ]);
+        if (cancelled) {
+          media.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current!;
+        video.srcObject = media;
+        await video.play();
+        setStatus('Point at a barcode on the box or SIM tray');
+        lastHitRef.current = Date.now();
+
+        timer = setInterval(async () => {
+          const canvas = canvasRef.current;
+          if (busy || !canvas || video.readyState < 2) return;
+          busy = true;
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+          canvas.getContext('2d')!.drawImage(video, 0, 0);
+          try {
+            (await decoder(canvas)).forEach(handleText);
+          } catch {
+            // A frame the decoder chokes on is skipped; the next tick tries again
+          } finally {
+            busy = false;
+          }
+          if (Date.now() - lastHitRef.current > 5000) setShowAiHint(true);
+        }, 250);
+      } catch (error) {
+        console.error("Camera Error:", error);
+        setStatus('Camera unavailable. Check the browser camera permission.');
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  const captureFrame = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !canvas.width) return;
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      onCaptureFrame(new File([blob], `scan-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+      setStatus('Frame sent to AI');
+      lastHitRef.current = Date.now();
+      setShowAiHint(false);
+    }, 'image/jpeg', 0.9);
+  };
+
+  const flashRing = flash === 'ok' ? 'ring-4 ring-green-500' : flash === 'bad' ? 'ring-4 ring-red-500' : flash === 'dup' ? 'ring-4 ring-amber-400' : '';
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className={`relative w-full h-64 bg-black rounded-xl overflow-hidden transition-all ${flashRing}`}>
+        <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+        <canvas ref={canvasRef} className="hidden" />
+        <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/70 pointer-events-none"></div>
+        <div className="absolute top-3 left-3 right-3 bg-black/50 text-white px-3 py-1.5 rounded-md text-xs backdrop-blur-md">
+          {status}
+        </div>
+        <div className="absolute bottom-3 right-3 flex gap-2">
+          <button onClick={captureFrame} className={`px-3 py-2 text-xs font-bold rounded-lg backdrop-blur-md text-white ${showAiHint ? 'bg-blue-600 animate-pulse' : 'bg-black/50'}`}>
+            Capture for AI
+          </button>
+          <button onClick={onClose} className="px-3 py-2 text-xs font-bold rounded-lg bg-black/50 text-white backdrop-blur-md">
+            Done
+          </button>
+        </div>
+      </div>
+      {showAiHint && (
+        <p className="text-xs text-blue-600 dark:text-blue-400 font-medium">No barcode read for a while. Tap "Capture for AI" to read the label text instead.</p>
+      )}
+      {scanned.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {scanned.map(s => (
+            <span key={s.imei} className={`px-2 py-1 rounded-md text-xs font-mono font-bold ${s.inOrder ? 'bg-green-100/60 text-green-700' : 'bg-amber-100/60 text-amber-700'}`}>
+              {s.imei}{s.inOrder ? '' : ' · not in order'}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const IMAGE_JOB_STATUS_STYLES: Record<ImageJobStatus, string> = {
+  pending: 'bg-gray-500/10 text-gray-600 dark:text-gray-300',
+  reading: 'bg-blue-500/10 text-blue-700 dark:text-blue-300',
+  matched: 'bg-green-500/10 text-green-700 dark:text-green-300',
+  review: 'bg-amber-500/10 text-amber-700 dark:text-amber-300',
+  error: 'bg-red-500/10 text-red-700 dark:text-red-300',
+  cancelled: 'bg-gray-500/10 text-gray-500 dark:text-gray-400'
+};
+
+const ImageQueuePanel = ({
+  jobs,
+  onCancel,
+  onRetry,
+  onClear
+}: {
+  jobs: ImageJob[],
+  onCancel: () => void,
+  onRetry: (ids: string[]) => void,
+  onClear: () => void
+}) => {
+  const [isOpen, setIsOpen] = useState(true);
+
+  const counts = useMemo(() => {
+    const c: Record<ImageJobStatus, number> = { pending: 0, reading: 0, matched: 0, review: 0, error: 0, cancelled: 0 };
+    jobs.forEach(j => { c[j.status]++; });
+    return c;
+  }, [jobs]);
+
+  if (jobs.length === 0) return null;
+
+  const running = counts.pending + counts.reading;
+  const done = jobs.length - running;
+  const failedIds = jobs.filter(j => j.status === 'error').map(j => j.id);
+
+  return (
+    <div className={`mb-4 ${GLASS_INPUT} overflow-hidden`}>
+      <div className="p-3 flex flex-wrap items-center gap-3">
+        <button onClick={() => setIsOpen(!isOpen)} className="text-sm font-bold text-gray-800 dark:text-white flex items-center gap-2">
+          <span className={`transform transition-transform text-xs ${isOpen ? 'rotate-180' : ''}`}>▼</span>
+          Photos {done}/{jobs.length}
+        </button>
+        <div className="flex-1 min-w-[120px] h-2 rounded-full bg-gray-200/60 dark:bg-white/10 overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${(done / jobs.length) * 100}%` }} />
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs font-bold">
+          {counts.matched > 0 && <span className="px-2 py-1 rounded-md bg-green-100/60 text-green-700">Matched: {counts.matched}</span>}
+          {counts.review > 0 && <span className="px-2 py-1 rounded-md bg-amber-100/60 text-amber-700">Review: {counts.review}</span>}
+          {counts.error > 0 && <span className="px-2 py-1 rounded-md bg-red-100/60 text-red-700">Errors: {counts.error}</span>}
+        </div>
+        {running > 0 ? (
+          <button onClick={onCancel} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}>Cancel</button>
+        ) : (
+          <button onClick={onClear} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>Clear</button>
+        )}
+        {failedIds.length > 0 && (
+          <button onClick={() => onRetry(failedIds)} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>Retry Failed ({failedIds.length})</button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-1 max-h-48 overflow-y-auto">
+          {jobs.map(j => (
+            <div key={j.id} className={`text-xs px-3 py-1.5 rounded-lg flex items-center gap-3 ${IMAGE_JOB_STATUS_STYLES[j.status]}`}>
+              <span className="flex-1 truncate" title={j.error || j.file.name}>{j.file.name}</span>
+              {j.imeis && <span className="font-mono truncate max-w-[50%]" title={j.imeis.join(', ')}>{j.imeis.join(', ')}</span>}
+              <span className="font-bold">{IMAGE_JOB_STATUS_LABELS[j.status]}</span>
+              {(j.status === 'error' || j.status === 'cancelled') && (
+                <button onClick={() => onRetry([j.id])} className="font-bold underline">Retry</button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CHECK_JOB_STATUS_STYLES: Record<CheckJobStatus, string> = {
+  pending: 'bg-gray-500/10 text-gray-600 dark:text-gray-300',
+  running: 'bg-blue-500/10 text-blue-700 dark:text-blue-300',
+  done: 'bg-green-500/10 text-green-700 dark:text-green-300',
+  error: 'bg-red-500/10 text-red-700 dark:text-red-300',
+  cancelled: 'bg-gray-500/10 text-gray-500 dark:text-gray-400'
+};
+
+const SickwChecksPanel = ({
+  settings,
+  onSettingsChange,
+  jobs,
+  balance,
+  onBalance,
+  searchBoxText,
+  onRun,
+  onCancel,
+  onRetry,
+  onClear
+}: {
+  settings: SickwSettings,
+  onSettingsChange: (settings: SickwSettings) => void,
+  jobs: CheckJob[],
+  balance: number | null,
+  onBalance: (balance: number) => void,
+  searchBoxText: string,
+  onRun: (imeis: string[], serviceId: string) => void,
+  onCancel: () => void,
+  onRetry: (ids: string[]) => void,
+  onClear: () => void
+}) => {
+  const [services, setServices] = useState<SickwService[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showApiSettings, setShowApiSettings] = useState(!settings.apiKey);
+  const [imeiText, setImeiText] = useState('');
+
+  const loadServices = async () => {
+    setIsLoading(true);
+    try {
+      const [list, current] = await Promise.all([fetchSickwServices(settings), fetchSickwBalance(settings)]);
+      setServices(list);
+      onBalance(current);
+      if (!settings.serviceId && list.length > 0) onSettingsChange({ ...settings, serviceId: list[0].id });
+    } catch (error) {
+      alert(`Could not reach the Sickw API: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (settings.apiKey) loadServices();
+  }, []);
+
+  // 14-digit entries get their check digit; anything else that fails Luhn is left out
+  const parsed = useMemo(() => {
+    const tokens: string[] = imeiText.split(/[\n, \t]+/).map(t => t.trim()).filter(Boolean);
+    const valid = new Set<string>();
+    const invalid: string[] = [];
+    tokens.forEach(t => {
+      const check = checkImei(t);
+      if (check.valid) valid.add(check.imei);
+      else invalid.push(t);
+    });
+    return { imeis: Array.from(valid), invalid, duplicates: tokens.length - invalid.length - valid.size };
+  }, [imeiText]);
+
+  const service = services.find(s => s.id === settings.serviceId);
+  const estimate = service ? service.price * parsed.imeis.length : null;
+  const searchBoxImeis = searchBoxText.split(/[\n, \t]+/).filter(t => checkImei(t).valid);
+
+  const running = jobs.filter(isCheckJobActive).length;
+  const done = jobs.length - running;
+  const spent = jobs.reduce((sum, j) => sum + (j.status === 'done' ? j.cost || 0 : 0), 0);
+  const failedIds = jobs.filter(j => j.status === 'error' || j.status === 'cancelled').map(j => j.id);
+
+  const handleRun = () => {
+    if (!settings.serviceId) return alert('Choose a service first.');
+    if (parsed.imeis.length === 0) return alert('No valid IMEIs to check.');
+    const cost = estimate !== null ? ` for about ${formatMoney(estimate)}` : '';
+    if (!confirm(`Run ${parsed.imeis.length} check${parsed.imeis.length === 1 ? '' : 's'} on ${service?.name || `service ${settings.serviceId}`}${cost}?`)) return;
+    onRun(parsed.imeis, settings.serviceId);
+    setImeiText('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className={`${GLASS_INPUT} overflow-hidden`}>
+        <button onClick={() => setShowApiSettings(!showApiSettings)} className="w-full p-3 flex items-center gap-2 text-sm font-bold text-gray-800 dark:text-white">
+          <span className={`transform transition-transform text-xs ${showApiSettings ? 'rotate-180' : ''}`}>▼</span>
+          <span className="flex-1 text-left">API Settings</span>
+          {balance !== null && <span className="text-xs font-bold text-green-700 dark:text-green-300">Balance: {formatMoney(balance)}</span>}
+        </button>
+        {showApiSettings && (
+          <div className="px-3 pb-3 space-y-2">
+            <label className="block text-xs font-bold text-gray-500 dark:text-gray-400">
+              API URL
+              <input
+                value={settings.apiUrl}
+                onChange={e => onSettingsChange({ ...settings, apiUrl: e.target.value })}
+                className={`mt-1 w-full px-3 py-2 ${GLASS_INPUT} text-sm font-mono font-normal dark:text-white`}
+              />
+            </label>
+            <label className="block text-xs font-bold text-gray-500 dark:text-gray-400">
+              API Key
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={e => onSettingsChange({ ...settings, apiKey: e.target.value.trim() })}
+                className={`mt-1 w-full px-3 py-2 ${GLASS_INPUT} text-sm font-mono font-normal dark:text-white`}
+              />
+            </label>
+            <p className="text-xs text-gray-400">The key is kept in this browser only. The default URL goes through the app server; point it at a mock server to test without spending credit.</p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {services.length > 0 ? (
+          <select
+            value={settings.serviceId}
+            onChange={e => onSettingsChange({ ...settings, serviceId: e.target.value })}
+            className={`flex-1 px-3 py-2 ${GLASS_INPUT} text-sm dark:text-white`}
+          >
+            {services.map(s => <option key={s.id} value={s.id}>{s.name} — {formatMoney(s.price)}</option>)}
+          </select>
+        ) : (
+          <input
+            value={settings.serviceId}
+            onChange={e => onSettingsChange({ ...settings, serviceId: e.target.value.trim() })}
+            placeholder="Service ID"
+            className={`flex-1 px-3 py-2 ${GLASS_INPUT} text-sm dark:text-white`}
+          />
+        )}
+        <button onClick={loadServices} disabled={isLoading || !settings.apiKey} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-sm font-bold disabled:opacity-50`}>
+          {isLoading ? 'Loading...' : 'Load Services'}
+        </button>
+      </div>
+
+      <div>
+        <textarea
+          value={imeiText}
+          onChange={e => setImeiText(e.target.value)}
+          placeholder="Paste IMEIs to check, one per line"
+          className={`w-full h-32 p-3 ${GLASS_INPUT} text-sm font-mono dark:text-white`}
+        />
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+          {searchBoxImeis.length > 0 && (
+            <button onClick={() => setImeiText(searchBoxImeis.join('\n'))} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} font-bold`}>
+              Use Search Box ({searchBoxImeis.length})
+            </button>
+          )}
+          <span className="text-gray-500 dark:text-gray-400">{parsed.imeis.length} to check</span>
+          {parsed.invalid.length > 0 && <span className="text-red-500" title={parsed.invalid.join(', ')}>{parsed.invalid.length} invalid, skipped</span>}
+          {parsed.duplicates > 0 && <span className="text-gray-400">{parsed.duplicates} duplicate{parsed.duplicates === 1 ? '' : 's'}</span>}
+          {estimate !== null && <span className="ml-auto font-bold text-gray-700 dark:text-gray-200">Est. {formatMoney(estimate)}</span>}
+        </div>
+      </div>
+
+      <button onClick={handleRun} disabled={parsed.imeis.length === 0} className={`w-full py-3 ${GLASS_BUTTON_PRIMARY} font-bold disabled:opacity-50`}>
+        Run Checks
+      </button>
+
+      {jobs.length > 0 && (
+        <div className={`${GLASS_INPUT} overflow-hidden`}>
+          <div className="p-3 flex flex-wrap items-center gap-3">
+            <span className="text-sm font-bold text-gray-800 dark:text-white">Checks {done}/{jobs.length}</span>
+            <div className="flex-1 min-w-[120px] h-2 rounded-full bg-gray-200/60 dark:bg-white/10 overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${(done / jobs.length) * 100}%` }} />
+            </div>
+            <span className="text-xs font-bold text-gray-700 dark:text-gray-200">Spent: {formatMoney(spent)}</span>
+            {running > 0 ? (
+              <button onClick={onCancel} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}>Cancel</button>
+            ) : (
+              <button onClick={onClear} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>Clear</button>
+            )}
+            {failedIds.length > 0 && running === 0 && (
+              <button onClick={() => onRetry(failedIds)} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>Retry Failed ({failedIds.length})</button>
+            )}
+          </div>
+          <div className="px-3 pb-3 space-y-1 max-h-64 overflow-y-auto">
+            {jobs.map(j => (
+              <div key={j.id} className={`text-xs px-3 py-1.5 rounded-lg flex items-center gap-3 ${CHECK_JOB_STATUS_STYLES[j.status]}`}>
+                <span className="font-mono">{j.imei}</span>
+                <span className="flex-1 truncate" title={j.error}>{j.error || ''}</span>
+                {j.cost !== undefined && <span>{formatMoney(j.cost)}</span>}
+                <span className="font-bold">{CHECK_JOB_STATUS_LABELS[j.status]}</span>
+                {(j.status === 'error' || j.status === 'cancelled') && (
+                  <button onClick={() => onRetry([j.id])} className="font-bold underline">Retry</button>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="px-3 pb-3 text-xs text-gray-400">Finished checks are added to the order when the batch completes.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ParseDiagnosticsPanel = ({ files }: { files: SourceFile[] }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const summary = useMemo(() => {
+    const all = files.flatMap(f => f.warnings ?? []);
+    const unknownCounts: Record<string, number> = {};
+    all.forEach(w => w.unknownLabels?.forEach(l => { unknownCounts[l] = (unknownCounts[l] || 0) + 1; }));
+    return {
+      skipped: all.filter(w => w.skipped).length,
+      missing: all.filter(w => w.missingFields && w.missingFields.length > 0).length,
+      invalidImei: all.filter(w => w.invalidImei).length,
+      unknownLabels: Object.entries(unknownCounts).sort((a, b) => b[1] - a[1]),
+      total: all.length
+    };
+  }, [files]);
+
+  if (summary.total === 0) return null;
+
+  return (
+    <div className={`${GLASS_CARD} overflow-hidden`}>
+      <div
+        className="p-5 flex flex-wrap justify-between items-center gap-3 cursor-pointer hover:bg-white/30 dark:hover:bg-white/5 transition-colors"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <div>
+          <h2 className="text-lg font-bold text-gray-800 dark:text-white">Parse Diagnostics</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">Check these if the device count looks wrong or Sickw changed its output</p>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs font-bold">
+          {summary.skipped > 0 && <span className="px-2 py-1 rounded-md bg-red-100/60 text-red-700">Skipped: {summary.skipped}</span>}
+          {summary.missing > 0 && <span className="px-2 py-1 rounded-md bg-amber-100/60 text-amber-700">Missing Fields: {summary.missing}</span>}
+          {summary.invalidImei > 0 && <span className="px-2 py-1 rounded-md bg-rose-100/60 text-rose-700">Bad Check Digit: {summary.invalidImei}</span>}
+          {summary.unknownLabels.length > 0 && <span className="px-2 py-1 rounded-md bg-blue-100/60 text-blue-700">Unknown Labels: {summary.unknownLabels.length}</span>}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="p-5 border-t border-gray-200/20 bg-gray-50/30 dark:bg-black/20 space-y-5">
+          {summary.unknownLabels.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 mb-2">Unknown Labels Seen</h3>
+              <div className="flex flex-wrap gap-2">
+                {summary.unknownLabels.map(([label, count]) => (
+                  <span key={label} className="px-2 py-1 rounded-md bg-white/50 dark:bg-white/10 text-xs font-mono dark:text-gray-300">
+                    {label} <span className="text-gray-400">×{count}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          {files.map((f, i) => ({ f, i })).filter(({ f }) => (f.warnings ?? []).some(isListedWarning)).map(({ f, i }) => (
+            // Files can share a name (the same export downloaded twice), so entries are keyed by upload order
+            <div key={i}>
+              <h3 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 mb-2">
+                {f.fileName}{files.filter(other => other.fileName === f.fileName).length > 1 ? ` (file ${i + 1})` : ''} · {f.format}
+              </h3>
+              <div className="space-y-1 max-h-60 overflow-y-auto">
+                {(f.warnings ?? []).filter(isListedWarning).map((w, j) => (
+                  <div key={j} className={`text-xs px-3 py-2 rounded-lg flex justify-between gap-3 ${w.skipped ? 'bg-red-500/10 text-red-700 dark:text-red-300' : 'bg-amber-500/10 text-amber-700 dark:text-amber-300'}`}>
+                    <span>
+                      <span className="font-bold">#{w.chunkIndex}</span>{' '}
+                      {w.skipped || w.invalidImei ? w.reason : `Missing ${w.missingFields!.join(', ')}`}
+                    </span>
+                    {w.imei && <span className="font-mono">{w.imei}</span>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const FieldFilterBar = ({
+  catalog,
+  filter,
+  onChange
+}: {
+  catalog: FieldDef[],
+  filter: FieldFilter | null,
+  onChange: (filter: FieldFilter | null) => void
+}) => {
+  const def = catalog.find(f => f.key === filter?.key);
+
+  return (
+    <div className="flex flex-wrap gap-2 items-center">
+      <select
+        value={filter?.key || ''}
+        onChange={(e) => onChange(e.target.value ? { key: e.target.value, text: '' } : null)}
+        className={`px-3 py-2 ${GLASS_INPUT} text-sm dark:text-gray-200`}
+      >
+        <option value="">Filter by field…</option>
+        {catalog.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+      </select>
+      {filter && def?.kind === 'boolean' && (
+        <select value={filter.text} onChange={(e) => onChange({ ...filter, text: e.target.value })} className={`px-3 py-2 ${GLASS_INPUT} text-sm dark:text-gray-200`}>
+          <option value="">Any</option>
+          <option value="yes">Yes / On</option>
+          <option value="no">No / Off</option>
+        </select>
+      )}
+      {filter && def?.kind === 'date' && (
+        <>
+          <input type="date" value={filter.from || ''} onChange={(e) => onChange({ ...filter, from: e.target.value })} className={`px-3 py-2 ${GLASS_INPUT} text-sm dark:text-gray-200`} />
+          <span className="text-xs text-gray-500">to</span>
+          <input type="date" value={filter.to || ''} onChange={(e) => onChange({ ...filter, to: e.target.value })} className={`px-3 py-2 ${GLASS_INPUT} text-sm dark:text-gray-200`} />
+        </>
+      )}
+      {filter && def?.kind === 'text' && (
+        <input
+          type="text"
+          value={filter.text}
+          onChange={(e) => onChange({ ...filter, text: e.target.value })}
+          placeholder="Contains…"
+          className={`px-3 py-2 ${GLASS_INPUT} text-sm dark:text-gray-200`}
+        />
+      )}
+      {filter && (
+        <button onClick={() => onChange(null)} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}>
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+const GroupRulesEditor = ({
+  rules,
+  onChange,
+  onRename
+}: {
+  rules: GroupRule[],
+  onChange: (rules: GroupRule[]) => void,
+  onRename: (from: string, to: string) => void
+}) => {
+  // Name when the field was focused; a rename is reported once, on blur, never for the names typed on the way
+  const [nameBeforeEdit, setNameBeforeEdit] = useState<string | null>(null);
+
+  const commitRename = (rule: GroupRule) => {
+    const from = nameBeforeEdit;
+    const to = rule.name.trim();
+    setNameBeforeEdit(null);
+    if (!from || !to || from === to) return;
+    // Taking another group's name would fold both groups' template rules together
+    if (rules.some(r => r.id !== rule.id && r.name.trim().toLowerCase() === to.toLowerCase())) return;
+    onRename(from, to);
+  };
+
+  const update = (id: string, patch: Partial<GroupRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: generateId(), name: 'New Group', color: '#8b5cf6', carrierPatterns: [], simLockPatterns: [] }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Rules are checked top to bottom and the first match wins. Patterns are comma-separated and matched case-insensitively inside the Locked Carrier or Sim-Lock Status text. Anything unmatched goes to "{FALLBACK_GROUP}".
+      </p>
+      {rules.map((rule, i) => (
+        <div key={rule.id} className={`p-4 ${GLASS_INPUT} space-y-3`}>
+          <div className="flex gap-2 items-center">
+            <input
+              type="color"
+              value={rule.color}
+              onChange={(e) => update(rule.id, { color: e.target.value })}
+              className="w-10 h-10 rounded-lg cursor-pointer bg-transparent"
+            />
+            <input
+              type="text"
+              value={rule.name}
+              onFocus={() => setNameBeforeEdit(rule.name.trim())}
+              onChange={(e) => update(rule.id, { name: e.target.value })}
+              onBlur={() => commitRename(rule)}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className={`flex-1 px-3 py-2 ${GLASS_INPUT} text-sm font-bold dark:text-white`}
+            />
+            <button onClick={() => move(i, -1)} disabled={i === 0} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs disabled:opacity-30`}>↑</button>
+            <button onClick={() => move(i, 1)} disabled={i === rules.length - 1} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs disabled:opacity-30`}>↓</button>
+            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}>✕</button>
+          </div>
+          <label className="block text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+            Carrier Patterns
+            <input
+              type="text"
+              value={rule.carrierPatterns.join(',')}
+              onChange={(e) => update(rule.id, { carrierPatterns: e.target.value.split(',') })}
+              placeholder="e.g. cricket,metro"
+              className={`mt-1 w-full px-3 py-2 ${GLASS_INPUT} text-sm font-mono normal-case font-normal dark:text-gray-200`}
+            />
+          </label>
+          <label className="block text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+            Sim-Lock Patterns
+            <input
+              type="text"
+              value={rule.simLockPatterns.join(',')}
+              onChange={(e) => update(rule.id, { simLockPatterns: e.target.value.split(',') })}
+              placeholder="e.g. unlocked"
+              className={`mt-1 w-full px-3 py-2 ${GLASS_INPUT} text-sm font-mono normal-case font-normal dark:text-gray-200`}
+            />
+          </label>
+        </div>
+      ))}
+      <div className="flex gap-3">
+        <button onClick={addRule} className={`flex-1 py-3 ${GLASS_BUTTON_PRIMARY} text-sm font-bold`}>Add Group</button>
+        <button onClick={() => onChange(DEFAULT_GROUP_RULES)} className={`flex-1 py-3 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>Reset to Defaults</button>
+      </div>
+    </div>
+  );
+};
+
+const PriceTableEditor = ({
+  table,
+  onChange,
+  devices,
+  groupNames
+}: {
+  table: PriceRule[],
+  onChange: (table: PriceRule[]) => void,
+  devices: Device[],
+  groupNames: string[]
+}) => {
+  const suggestions = useMemo(() => ({
+    modelFamily: Array.from(new Set(devices.map(d => getModelFamily(d.modelDesc)))).sort(),
+    storage: Array.from(new Set(devices.map(d => getStorage(d.modelDesc)).filter(Boolean))).sort((a, b) => parseInt(a) - parseInt(b)),
+    group: groupNames,
+    grade: ANNOTATION_GRADES,
+    icloud: ['ON', 'OFF'],
+    active: ['Active', 'Inactive']
+  }), [devices, groupNames]);
+
+  const unpricedCount = devices.filter(d => !findPriceRule(d, table)).length;
+
+  const update = (id: string, patch: Partial<PriceRule>) => {
+    onChange(table.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const addRow = () => {
+    onChange([...table, { id: generateId(), modelFamily: '', storage: '', group: '', grade: '', icloud: '', active: '', price: 0 }]);
+  };
+
+  // One row per model family + storage in the order that the table doesn't price yet
+  const addLoadedModels = () => {
+    const seen = new Set<string>();
+    const rows: PriceRule[] = [];
+    devices.filter(d => !findPriceRule(d, table)).forEach(d => {
+      const modelFamily = getModelFamily(d.modelDesc);
+      const storage = getStorage(d.modelDesc);
+      if (seen.has(`${modelFamily}|${storage}`)) return;
+      seen.add(`${modelFamily}|${storage}`);
+      rows.push({ id: generateId(), modelFamily, storage, group: '', grade: '', icloud: '', active: '', price: 0 });
+    });
+    onChange([...table, ...rows]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { table: imported, skipped } = parsePriceTableCsv(await fileToText(file));
+      if (table.length > 0 && !window.confirm(`Replace the current ${table.length} rows with ${imported.length} imported rows?`)) return;
+      onChange(imported);
+      if (skipped > 0) alert(`${skipped} row${skipped === 1 ? '' : 's'} without a valid price were skipped.`);
+    } catch (error) {
+      alert(error instanceof Error && error.message ? error.message : 'Could not read this price table.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Blank cells match anything. Each device takes the price of the most specific matching row; a value override on the device wins over the table.
+        {devices.length > 0 && ` ${unpricedCount} of ${devices.length} loaded devices have no price.`}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400 uppercase">
+              {PRICE_RULE_KEYS.map(k => <th key={k.key} className="px-1 pb-2 font-bold">{k.label}</th>)}
+              <th className="px-1 pb-2 font-bold">Price</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {table.map(rule => (
+              <tr key={rule.id}>
+                {PRICE_RULE_KEYS.map(k => (
+                  <td key={k.key} className="px-1 py-1">
+                    <input
+                      list={`price-${k.key}`}
+                      value={rule[k.key]}
+                      onChange={(e) => update(rule.id, { [k.key]: e.target.value })}
+                      placeholder="Any"
+                      className={`w-full min-w-[70px] px-2 py-1.5 ${GLASS_INPUT} dark:text-gray-200`}
+                    />
+                  </td>
+                ))}
+                <td className="px-1 py-1">
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={rule.price}
+                    onChange={(e) => update(rule.id, { price: Number(e.target.value) || 0 })}
+                    className={`w-24 px-2 py-1.5 ${GLASS_INPUT} font-mono dark:text-gray-200`}
+                  />
+                </td>
+                <td className="px-1 py-1">
+                  <button onClick={() => onChange(table.filter(r => r.id !== rule.id))} className={`px-2 py-1.5 ${GLASS_BUTTON_SECONDARY} font-bold text-red-500`}>✕</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {(Object.entries(suggestions) as [string, string[]][]).map(([key, values]) => (
+          <datalist key={key} id={`price-${key}`}>{values.map(v => <option key={v} value={v} />)}</datalist>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={addRow} className={`flex-1 py-3 ${GLASS_BUTTON_PRIMARY} text-sm font-bold`}>Add Row</button>
+        <button onClick={addLoadedModels} disabled={unpricedCount === 0} className={`flex-1 py-3 ${GLASS_BUTTON_SECONDARY} text-sm font-bold disabled:opacity-30`}>Add Unpriced Models</button>
+        <div className="relative flex-1">
+          <input type="file" accept=".csv,text/csv" onChange={handleImport} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
+          <button className={`w-full py-3 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>Import CSV</button>
+        </div>
+        <button
+          onClick={() => downloadBlob(new Blob(['\ufeff' + priceTableToCsv(table)], { type: 'text/csv;charset=utf-8' }), 'price-table.csv')}
+          disabled={table.length === 0}
+          className={`flex-1 py-3 ${GLASS_BUTTON_SECONDARY} text-sm font-bold disabled:opacity-30`}
+        >
+          Export CSV
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ValuationPanel = ({
+  groupLines,
+  sectionLines,
+  lot,
+  templateName,
+  staleGroups,
+  onEditPrices
+}: {
+  groupLines: ValuationLine[],
+  sectionLines: ValuationLine[],
+  lot: ValuationLine,
+  templateName: string,
+  staleGroups: string[],
+  onEditPrices: () => void
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const renderLines = (heading: string, lines: ValuationLine[]) => (
+    <div>
+      <h3 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 mb-2">{heading}</h3>
+      <div className="space-y-1">
+        {lines.map(line => (
+          <div key={line.label} className="text-sm px-3 py-2 rounded-lg bg-white/40 dark:bg-white/5 flex items-center gap-3 dark:text-gray-200">
+            {line.color && <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: line.color }} />}
+            <span className="flex-1 truncate">{line.label}</span>
+            <span className="text-xs text-gray-400">{line.priced < line.count ? `${line.priced}/${line.count} priced` : `${line.count}`}</span>
+            <span className="font-mono font-bold w-28 text-right">{formatMoney(line.total)}</span>
+          </div>
+        ))}
+        {lines.length === 0 && <p className="text-xs text-gray-400">Nothing to value</p>}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={`${GLASS_CARD} overflow-hidden`}>
+      <div
+        className="p-5 flex flex-wrap justify-between items-center gap-3 cursor-pointer hover:bg-white/30 dark:hover:bg-white/5 transition-colors"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <div>
+          <h2 className="text-lg font-bold text-gray-800 dark:text-white">Lot Value</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {lot.priced} of {lot.count} devices priced{lot.priced < lot.count ? ' · unpriced devices count as zero' : ''}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-2xl font-black text-gray-900 dark:text-white font-mono">{formatMoney(lot.total)}</span>
+          <button onClick={(e) => { e.stopPropagation(); onEditPrices(); }} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>
+            Price Table
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="p-5 border-t border-gray-200/20 bg-gray-50/30 dark:bg-black/20 grid gap-5 md:grid-cols-2">
+          {renderLines('By Carrier Group', groupLines)}
+          <div>
+            {renderLines(`By Export Section · ${templateName}`, sectionLines)}
+            {staleGroups.length > 0 && (
+              <p className="text-xs text-red-600 dark:text-red-300 mt-2">Template rules name missing groups ({staleGroups.join(', ')}); section totals may be off.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const EXPORT_RULE_OPS: { op: ExportRule['op']; label: string }[] = [
+  { op: 'is', label: 'is' },
+  { op: 'is-not', label: 'is not' },
+  { op: 'contains', label: 'contains' },
+  { op: 'not-contains', label: 'does not contain' }
+];
+
+const ExportTemplateEditor = ({
+  template,
+  catalog,
+  groupNames,
+  onChange
+}: {
+  template: ExportTemplate,
+  catalog: FieldDef[],
+  groupNames: string[],
+  onChange: (template: ExportTemplate) => void
+}) => {
+  const keys = [...EXPORT_BUILTIN_KEYS, ...catalog.map(f => ({ key: f.key, label: f.label }))];
+  const staleGroups = findStaleGroupValues(template, groupNames);
+
+  const updateSection = (id: string, patch: Partial<ExportSection>) => {
+    onChange({ ...template, sections: template.sections.map(sec => sec.id === id ? { ...sec, ...patch } : sec) });
+  };
+
+  const moveSection = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= template.sections.length) return;
+    const sections = [...template.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    onChange({ ...template, sections });
+  };
+
+  const updateRule = (section: ExportSection, index: number, patch: Partial<ExportRule>) => {
+    updateSection(section.id, { rules: section.rules.map((r, i) => i === index ? { ...r, ...patch } : r) });
+  };
+
+  const fieldSelect = (value: string, onSelect: (key: string) => void, allowNone = false) => (
+    <select value={value} onChange={(e) => onSelect(e.target.value)} className={`px-2 py-1.5 ${GLASS_INPUT} text-xs dark:text-gray-200`}>
+      {allowNone && <option value="">Parse order</option>}
+      {keys.map(k => <option key={k.key} value={k.key}>{k.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <label className="block text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+        Template Name
+        <input
+          type="text"
+          value={template.name}
+          onChange={(e) => onChange({ ...template, name: e.target.value })}
+          className={`mt-1 w-full px-3 py-2 ${GLASS_INPUT} text-sm normal-case font-bold dark:text-white`}
+        />
+      </label>
+      <label className="block text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+        Device Line
+        <textarea
+          value={template.lineTemplate}
+          onChange={(e) => onChange({ ...template, lineTemplate: e.target.value })}
+          className={`mt-1 w-full h-16 px-3 py-2 ${GLASS_INPUT} text-sm font-mono normal-case font-normal resize-none dark:text-gray-200`}
+        />
+        <span className="block mt-1 normal-case font-normal">Placeholders: {keys.slice(0, 8).map(k => `{${k.key}}`).join(' ')} … or any field key. Fields shown on device cards are added under each line.</span>
+      </label>
+      <div className="flex flex-wrap gap-3 items-end">
+        <label className="flex-1 block text-xs font-bold uppercase text-gray-500 dark:text-gray-400">
+          Separator
+          <input
+            type="text"
+            value={template.separator}
+            onChange={(e) => onChange({ ...template, separator: e.target.value })}
+            className={`mt-1 w-full px-3 py-2 ${GLASS_INPUT} text-sm font-mono normal-case font-normal dark:text-gray-200`}
+          />
+        </label>
+        <div className="flex gap-2 items-center">
+          <span className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">Sort</span>
+          {fieldSelect(template.sortBy, key => onChange({ ...template, sortBy: key }), true)}
+          <select
+            value={template.sortDir}
+            onChange={(e) => onChange({ ...template, sortDir: e.target.value as ExportTemplate['sortDir'] })}
+            className={`px-2 py-1.5 ${GLASS_INPUT} text-xs dark:text-gray-200`}
+          >
+            <option value="asc">A → Z</option>
+            <option value="desc">Z → A</option>
+          </select>
+        </div>
+      </div>
+
+      <h4 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 pt-2">Sections</h4>
+      {staleGroups.length > 0 && (
+        <p className="text-xs text-red-600 dark:text-red-300 bg-red-500/10 border border-red-500/20 px-3 py-2 rounded-lg">
+          No group is called {staleGroups.map(g => `"${g}"`).join(', ')}. Rules marked in red won't sort devices as intended until they name a current group.
+        </p>
+      )}
+      <datalist id="export-group-names">
+        {groupNames.map(name => <option key={name} value={name} />)}
+      </datalist>
+      {template.sections.map((section, i) => (
+        <div key={section.id} className={`p-4 ${GLASS_INPUT} space-y-3`}>
+          <div className="flex gap-2 items-start">
+            <textarea
+              value={section.heading}
+              onChange={(e) => updateSection(section.id, { heading: e.target.value })}
+              placeholder="Section heading"
+              className={`flex-1 h-16 px-3 py-2 ${GLASS_INPUT} text-sm font-mono resize-none dark:text-gray-200`}
+            />
+            <button onClick={() => moveSection(i, -1)} disabled={i === 0} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs disabled:opacity-30`}>↑</button>
+            <button onClick={() => moveSection(i, 1)} disabled={i === template.sections.length - 1} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs disabled:opacity-30`}>↓</button>
+            <button
+              onClick={() => onChange({ ...template, sections: template.sections.filter(sec => sec.id !== section.id) })}
+              className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}
+            >
+              ✕
+            </button>
+          </div>
+          {section.rules.map((rule, j) => (
+            <div key={j} className="flex flex-wrap gap-2 items-center">
+              {fieldSelect(rule.field, key => updateRule(section, j, { field: key }))}
+              <select
+                value={rule.op}
+                onChange={(e) => updateRule(section, j, { op: e.target.value as ExportRule['op'] })}
+                className={`px-2 py-1.5 ${GLASS_INPUT} text-xs dark:text-gray-200`}
+              >
+                {EXPORT_RULE_OPS.map(o => <option key={o.op} value={o.op}>{o.label}</option>)}
+              </select>
+              <input
+                type="text"
+                value={rule.value}
+                list={rule.field === 'group' ? 'export-group-names' : undefined}
+                onChange={(e) => updateRule(section, j, { value: e.target.value })}
+                className={`flex-1 min-w-[6rem] px-2 py-1.5 ${GLASS_INPUT} text-xs font-mono dark:text-gray-200 ${rule.field === 'group' && staleGroups.includes(rule.value.trim()) ? 'ring-2 ring-red-500/60' : ''}`}
+              />
+              <button
+                onClick={() => updateSection(section.id, { rules: section.rules.filter((_, k) => k !== j) })}
+                className="text-xs font-bold text-red-500 px-2"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateSection(section.id, { rules: [...section.rules, { field: 'group', op: 'is', value: '' }] })}
+            className="text-xs font-bold text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            + Add Rule
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange({ ...template, sections: [...template.sections, { id: generateId(), heading: '*NEW SECTION*', rules: [] }] })}
+        className={`w-full py-3 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}
+      >
+        Add Section
+      </button>
+    </div>
+  );
+};
+
+const DataExportModal = ({
+  isOpen,
+  onClose,
+  scope,
+  devices,
+  catalog,
+  columns,
+  onColumnsChange,
+  baseName
+}: {
+  isOpen: boolean,
+  onClose: () => void,
+  scope: string,
+  devices: Device[],
+  catalog: FieldDef[],
+  columns: string[],
+  onColumnsChange: (columns: string[]) => void,
+  baseName: string
+}) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const options = [...EXPORT_BUILTIN_KEYS, ...catalog.filter(f => !EXPORT_BUILTIN_KEYS.some(b => b.key === f.key)).map(f => ({ key: f.key, label: f.label }))];
+  // Keep the user's column order, dropping keys no loaded device has
+  const selected = columns.map(key => options.find(o => o.key === key)).filter((o): o is { key: string; label: string } => !!o);
+
+  const handleExport = async (format: DataExportFormat) => {
+    setIsExporting(true);
+    try {
+      await exportDeviceData(devices, selected, format, `${baseName}-${scope}`);
+    } catch (error) {
+      console.error("Export Error:", error);
+      alert("Export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Download Data">
+      <div className="space-y-5">
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          <span className="font-bold">{scope}</span> · {devices.length} devices · {selected.length} columns
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-72 overflow-y-auto">
+          {options.map(o => (
+            <label key={o.key} className={`flex items-center gap-3 px-3 py-2 ${GLASS_INPUT} cursor-pointer text-sm dark:text-gray-200`}>
+              <input
+                type="checkbox"
+                checked={columns.includes(o.key)}
+                onChange={(e) => onColumnsChange(e.target.checked ? [...columns, o.key] : columns.filter(k => k !== o.key))}
+              />
+              {o.label}
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          {(['csv', 'xlsx', 'json'] as DataExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={isExporting || selected.length === 0 || devices.length === 0}
+              className={`flex-1 py-3 ${GLASS_BUTTON_PRIMARY} text-sm font-bold uppercase disabled:opacity-50`}
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+const FilterBar = ({
+  devices,
+  filters,
+  onChange,
+  sort,
+  onSortChange,
+  catalog,
+  resultCount
+}: {
+  devices: Device[],
+  filters: DeviceFilters,
+  onChange: (filters: DeviceFilters) => void,
+  sort: DeviceSort,
+  onSortChange: (sort: DeviceSort) => void,
+  catalog: FieldDef[],
+  resultCount: number
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const active = hasActiveFilters(filters);
+  const sortOptions = [...EXPORT_BUILTIN_KEYS, ...catalog.filter(f => !EXPORT_BUILTIN_KEYS.some(b => b.key === f.key)).map(f => ({ key: f.key, label: f.label }))];
+
+  const toggleValue = (facet: FacetKey, value: string) => {
+    const selected = filters.facets[facet];
+    const next = selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value];
+    onChange({ ...filters, facets: { ...filters.facets, [facet]: next } });
+  };
+
+  return (
+    <div className={`${GLASS_CARD} overflow-hidden`}>
+      <div className="p-4 flex flex-wrap justify-between items-center gap-3">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-3">
+          <div className={`w-8 h-8 flex items-center justify-center rounded-full bg-gray-100 dark:bg-gray-800 transition-transform duration-300 ${isOpen ? 'rotate-90' : ''}`}>
+            <svg className="w-4 h-4 text-gray-600 dark:text-gray-300" fill="currentColor" viewBox="0 0 20 20"><path d="M6 6L14 10L6 14V6Z" /></svg>
+          </div>
+          <span className="text-lg font-bold text-gray-800 dark:text-white">Filters</span>
+          {active && <span className="px-2 py-0.5 rounded-md bg-blue-500 text-white text-xs font-bold">{resultCount} match</span>}
+        </button>
+        <div className="flex flex-wrap gap-2 items-center">
+          <span className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">Sort</span>
+          <select
+            value={sort.key}
+            onChange={(e) => onSortChange({ ...sort, key: e.target.value })}
+            className={`px-3 py-2 ${GLASS_INPUT} text-sm dark:text-gray-200`}
+          >
+            <option value="">Parse order</option>
+            {sortOptions.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+          </select>
+          <button
+            onClick={() => onSortChange({ ...sort, dir: sort.dir === 'asc' ? 'desc' : 'asc' })}
+            disabled={!sort.key}
+            className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold disabled:opacity-30`}
+          >
+            {sort.dir === 'asc' ? 'A → Z' : 'Z → A'}
+          </button>
+          {active && (
+            <button onClick={() => onChange(EMPTY_FILTERS)} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}>
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="p-4 border-t border-gray-200/20 bg-gray-50/30 dark:bg-black/20 space-y-4">
+          {FACETS.map(facet => (
+            <div key={facet.key} className="flex flex-wrap gap-2 items-center">
+              <span className="w-20 text-xs font-bold uppercase text-gray-500 dark:text-gray-400">{facet.label}</span>
+              {countFacetValues(devices, filters, facet).map(([value, count]) => {
+                const selected = filters.facets[facet.key].includes(value);
+                return (
+                  <button
+                    key={value}
+                    onClick={() => toggleValue(facet.key, value)}
+                    className={`px-3 py-1 rounded-lg text-xs font-bold transition-all active:scale-95 ${selected ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : 'bg-white/50 dark:bg-white/10 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-700'}`}
+                  >
+                    {value} <span className={selected ? 'text-blue-100' : 'text-gray-400'}>{count}</span>
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2 items-center">
+            <span className="w-20 text-xs font-bold uppercase text-gray-500 dark:text-gray-400">Purchased</span>
+            <input type="date" value={filters.purchaseFrom} onChange={(e) => onChange({ ...filters, purchaseFrom: e.target.value })} className={`px-3 py-1.5 ${GLASS_INPUT} text-sm dark:text-gray-200`} />
+            <span className="text-xs text-gray-500">to</span>
+            <input type="date" value={filters.purchaseTo} onChange={(e) => onChange({ ...filters, purchaseTo: e.target.value })} className={`px-3 py-1.5 ${GLASS_INPUT} text-sm dark:text-gray-200`} />
+          </div>
+          <div className="flex flex-wrap gap-2 items-center">
+            <span className="w-20 text-xs font-bold uppercase text-gray-500 dark:text-gray-400">Field</span>
+            <FieldFilterBar catalog={catalog} filter={filters.field} onChange={(field) => onChange({ ...filters, field })} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AnnotationEditor = ({
+  annotation,
+  onChange,
+  knownTags = [],
+  knownBuyers = [],
+  compact = false
+}: {
+  annotation?: DeviceAnnotation,
+  onChange: (patch: Partial<DeviceAnnotation>) => void,
+  knownTags?: string[],
+  knownBuyers?: string[],
+  compact?: boolean
+}) => {
+  const [tagInput, setTagInput] = useState('');
+  const tags = annotation?.tags || [];
+  const labelClass = "text-[10px] font-bold uppercase text-gray-500 dark:text-gray-400";
+  const inputClass = `w-full px-2 py-1.5 ${GLASS_INPUT} text-sm dark:text-gray-200`;
+  const toNumber = (value: string) => value === '' ? undefined : Number(value);
+
+  const addTag = () => {
+    const tag = tagInput.trim().replace(/,$/, '');
+    if (tag && !tags.includes(tag)) onChange({ tags: [...tags, tag] });
+    setTagInput('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className={`grid gap-2 ${compact ? 'grid-cols-2' : 'grid-cols-2 sm:grid-cols-3'}`}>
+        <label className="space-y-1">
+          <span className={labelClass}>Grade</span>
+          <input list="annotation-grades" value={annotation?.grade || ''} onChange={(e) => onChange({ grade: e.target.value || undefined })} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Battery %</span>
+          <input type="number" min={0} max={100} value={annotation?.batteryHealth ?? ''} onChange={(e) => onChange({ batteryHealth: toNumber(e.target.value) })} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Buyer</span>
+          <input list="annotation-buyers" value={annotation?.buyer || ''} onChange={(e) => onChange({ buyer: e.target.value || undefined })} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Purchase Price</span>
+          <input type="number" min={0} step="0.01" value={annotation?.purchasePrice ?? ''} onChange={(e) => onChange({ purchasePrice: toNumber(e.target.value) })} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Sale Price</span>
+          <input type="number" min={0} step="0.01" value={annotation?.salePrice ?? ''} onChange={(e) => onChange({ salePrice: toNumber(e.target.value) })} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Value Override</span>
+          <input type="number" min={0} step="0.01" value={annotation?.priceOverride ?? ''} onChange={(e) => onChange({ priceOverride: toNumber(e.target.value) })} placeholder="Price table" className={inputClass} />
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <span className={labelClass}>Tags</span>
+        <div className="flex flex-wrap gap-1.5 items-center">
+          {tags.map(tag => (
+            <span key={tag} className="px-2 py-0.5 rounded-md bg-purple-100/60 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 text-xs font-bold flex items-center gap-1">
+              {tag}
+              <button onClick={() => onChange({ tags: tags.filter(t => t !== tag) })} className="opacity-60 hover:opacity-100">×</button>
+            </span>
+          ))}
+          <input
+            list="annotation-tags"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); addTag(); } }}
+            onBlur={addTag}
+            placeholder="Add tag…"
+            className={`flex-1 min-w-[100px] px-2 py-1 ${GLASS_INPUT} text-xs dark:text-gray-200`}
+          />
+        </div>
+      </div>
+
+      <label className="block space-y-1">
+        <span className={labelClass}>Notes</span>
+        <textarea value={annotation?.notes || ''} onChange={(e) => onChange({ notes: e.target.value || undefined })} rows={compact ? 2 : 3} className={`${inputClass} resize-none`} />
+      </label>
+
+      <datalist id="annotation-grades">{ANNOTATION_GRADES.map(g => <option key={g} value={g} />)}</datalist>
+      <datalist id="annotation-tags">{knownTags.map(t => <option key={t} value={t} />)}</datalist>
+      <datalist id="annotation-buyers">{knownBuyers.map(b => <option key={b} value={b} />)}</datalist>
+    </div>
+  );
+};
+
+const CHART_PALETTE = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#6366f1', '#84cc16'];
+
+interface ChartDatum {
+  label: string;
+  count: number;
+  color: string;
+  selected: boolean;
+}
+
+// Ring chart; each segment toggles its value as a filter
+const DonutChart = ({ data, onSelect }: { data: ChartDatum[], onSelect: (label: string) => void }) => {
+  const total = data.reduce((sum, d) => sum + d.count, 0);
+  const anySelected = data.some(d => d.selected);
+  const radius = 40;
+  const circumference = 2 * Math.PI * radius;
+  let offset = 0;
+
+  return (
+    <div className="flex items-center gap-4">
+      <svg viewBox="0 0 100 100" className="w-28 h-28 shrink-0 -rotate-90">
+        {total === 0 && <circle cx={50} cy={50} r={radius} fill="none" stroke="currentColor" strokeWidth={14} className="text-gray-200 dark:text-white/10" />}
+        {data.filter(d => d.count > 0).map(d => {
+          const length = (d.count / total) * circumference;
+          const segment = (
+            <circle
+              key={d.label}
+              cx={50}
+              cy={50}
+              r={radius}
+              fill="none"
+              stroke={d.color}
+              strokeWidth={d.selected ? 18 : 14}
+              strokeDasharray={`${length} ${circumference - length}`}
+              strokeDashoffset={-offset}
+              opacity={anySelected && !d.selected ? 0.35 : 1}
+              className="cursor-pointer transition-all"
+              onClick={() => onSelect(d.label)}
+            >
+              <title>{`${d.label}: ${d.count}`}</title>
+            </circle>
+          );
+          offset += length;
+          return segment;
+        })}
+      </svg>
+      <div className="space-y-1 min-w-0 flex-1">
+        {data.map(d => (
+          <button key={d.label} onClick={() => onSelect(d.label)} className={`w-full flex items-center gap-2 text-xs text-left ${anySelected && !d.selected ? 'opacity-50' : ''}`}>
+            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: d.color }} />
+            <span className={`flex-1 truncate dark:text-gray-200 ${d.selected ? 'font-bold' : ''}`}>{d.label}</span>
+            <span className="text-gray-500 dark:text-gray-400">{d.count}</span>
+            <span className="text-gray-400 w-9 text-right">{total > 0 ? Math.round((d.count / total) * 100) : 0}%</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Horizontal bars for long category lists
+const BarList = ({ data, onSelect }: { data: ChartDatum[], onSelect: (label: string) => void }) => {
+  const max = Math.max(1, ...data.map(d => d.count));
+  const anySelected = data.some(d => d.selected);
+  return (
+    <div className="space-y-1.5 max-h-56 overflow-y-auto pr-1">
+      {data.map(d => (
+        <button key={d.label} onClick={() => onSelect(d.label)} className={`w-full text-left group ${anySelected && !d.selected ? 'opacity-50' : ''}`}>
+          <div className="flex justify-between text-xs mb-0.5">
+            <span className={`truncate dark:text-gray-200 ${d.selected ? 'font-bold' : ''}`}>{d.label}</span>
+            <span className="text-gray-500 dark:text-gray-400">{d.count}</span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-200/50 dark:bg-white/10 overflow-hidden">
+            <div className="h-full rounded-full transition-all group-hover:opacity-80" style={{ width: `${(d.count / max) * 100}%`, backgroundColor: d.color }} />
+          </div>
+        </button>
+      ))}
+    </div>
+  );
 };
 
-// --- COMPONENTS ---
+const ICLOUD_COLORS: Record<string, string> = { ON: '#ef4444', OFF: '#10b981' };
+const STATE_COLORS: Record<string, string> = { Active: '#10b981', Inactive: '#ef4444' };
 
-const FileUpload = ({ onUpload }: { onUpload: (devices: Device[]) => void }) => {
-  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+const AnalyticsPanel = ({
+  devices,
+  filters,
+  onChange,
+  groupRules
+}: {
+  devices: Device[],
+  filters: DeviceFilters,
+  onChange: (filters: DeviceFilters) => void,
+  groupRules: GroupRule[]
+}) => {
+  const chartData = (key: FacetKey, colorFor: (label: string, i: number) => string): ChartDatum[] => {
+    const facet = FACETS.find(f => f.key === key)!;
+    return countFacetValues(devices, filters, facet).map(([label, count], i) => ({
+      label,
+      count,
+      color: colorFor(label, i),
+      selected: filters.facets[key].includes(label)
+    }));
+  };
+  const palette = (_: string, i: number) => CHART_PALETTE[i % CHART_PALETTE.length];
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result;
-      if (typeof text === 'string') {
-        const parsed = parseSickwHtml(text);
-        onUpload(parsed);
-      }
-    };
-    reader.readAsText(file);
+  const toggle = (key: FacetKey) => (value: string) => {
+    const selected = filters.facets[key];
+    const next = selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value];
+    onChange({ ...filters, facets: { ...filters.facets, [key]: next } });
   };
 
+  const purchaseBins = countPurchaseDates(devices, filters);
+  const maxBin = Math.max(1, ...purchaseBins.map(b => b.count));
+  const rangeActive = !!filters.purchaseFrom || !!filters.purchaseTo;
+
+  const charts: { title: string, key: FacetKey, kind: 'donut' | 'bars', colorFor: (label: string, i: number) => string }[] = [
+    { title: 'Carrier Groups', key: 'group', kind: 'donut', colorFor: (label) => getGroupColor(label, groupRules) },
+    { title: 'iCloud Lock', key: 'icloud', kind: 'donut', colorFor: (label, i) => ICLOUD_COLORS[label] || palette(label, i + 2) },
+    { title: 'Activation', key: 'active', kind: 'donut', colorFor: (label, i) => STATE_COLORS[label] || palette(label, i) },
+    { title: 'Warranty', key: 'warranty', kind: 'donut', colorFor: palette },
+    { title: 'Models', key: 'modelFamily', kind: 'bars', colorFor: palette },
+    { title: 'Storage', key: 'storage', kind: 'bars', colorFor: palette }
+  ];
+
   return (
-    <div className={`flex flex-col items-center justify-center h-48 border-2 border-dashed border-blue-400/50 rounded-3xl ${GLASS_INPUT} hover:bg-blue-50/50 dark:hover:bg-blue-900/20 transition-all cursor-pointer relative group`}>
-      <div className="text-center z-10 p-4">
-        <svg className="mx-auto h-12 w-12 text-blue-500 group-hover:scale-110 transition-transform duration-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-        </svg>
-        <p className="mt-3 text-sm font-medium text-gray-700 dark:text-gray-200">
-          Upload Sickw HTML
-        </p>
-        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Tap or Drag File Here</p>
+    <div className={`${GLASS_CARD} p-6`}>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">Analytics</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Click a segment to filter the device list</p>
+        </div>
+        {hasActiveFilters(filters) && (
+          <button onClick={() => onChange(EMPTY_FILTERS)} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}>
+            Reset Filters
+          </button>
+        )}
+      </div>
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {charts.map(chart => (
+          <div key={chart.key} className={`p-4 ${GLASS_INPUT}`}>
+            <h3 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 mb-3">{chart.title}</h3>
+            {chart.kind === 'donut'
+              ? <DonutChart data={chartData(chart.key, chart.colorFor)} onSelect={toggle(chart.key)} />
+              : <BarList data={chartData(chart.key, chart.colorFor)} onSelect={toggle(chart.key)} />}
+          </div>
+        ))}
+        <div className={`p-4 ${GLASS_INPUT} md:col-span-2 xl:col-span-3`}>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">Estimated Purchase Date</h3>
+            {rangeActive && (
+              <button onClick={() => onChange({ ...filters, purchaseFrom: '', purchaseTo: '' })} className="text-xs font-bold text-red-500">Clear range</button>
+            )}
+          </div>
+          {purchaseBins.length === 0 ? (
+            <p className="text-xs text-gray-400">No purchase dates in these devices</p>
+          ) : (
+            <div className="flex items-end gap-1 h-32">
+              {purchaseBins.map(bin => {
+                const selected = filters.purchaseFrom === bin.from && filters.purchaseTo === bin.to;
+                return (
+                  <button
+                    key={bin.label}
+                    title={`${bin.label}: ${bin.count}`}
+                    onClick={() => onChange(selected ? { ...filters, purchaseFrom: '', purchaseTo: '' } : { ...filters, purchaseFrom: bin.from, purchaseTo: bin.to })}
+                    className="flex-1 min-w-[4px] h-full flex flex-col justify-end group"
+                  >
+                    <div
+                      className={`w-full rounded-t transition-all group-hover:opacity-80 ${selected ? 'bg-blue-600' : rangeActive ? 'bg-blue-400/40' : 'bg-blue-500'}`}
+                      style={{ height: `${(bin.count / maxBin) * 100}%`, minHeight: bin.count > 0 ? 2 : 0 }}
+                    />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {purchaseBins.length > 0 && (
+            <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+              <span>{purchaseBins[0].label}</span>
+              <span>{purchaseBins[purchaseBins.length - 1].label}</span>
+            </div>
+          )}
+        </div>
       </div>
-      <input type="file" accept=".html" onChange={handleFile} className="opacity-0 absolute w-full h-full cursor-pointer z-20" />
     </div>
   );
 };
@@ -246,9 +4245,18 @@ interface DeviceCardProps {
   device: Device; 
   onCopy: (text: string) => void;
   onViewDetails: (device: Device) => void;
+  extraFields?: string[]; // Field keys shown as extra chips
+  groupColor?: string;
+  receivedAt?: number; // Set once the device has been checked in
+  onAnnotate?: (imei: string, patch: Partial<DeviceAnnotation>) => void;
+  knownTags?: string[];
+  knownBuyers?: string[];
 }
 
-const DeviceCard: React.FC<DeviceCardProps> = ({ device, onCopy, onViewDetails }) => {
+const DeviceCard: React.FC<DeviceCardProps> = ({ device, onCopy, onViewDetails, extraFields = [], groupColor, receivedAt, onAnnotate, knownTags, knownBuyers }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const annotation = device.annotation;
+
   const statusColor = device.isActive 
     ? "bg-green-100/80 text-green-800 dark:bg-green-900/50 dark:text-green-300 border border-green-200/50" 
     : "bg-red-100/80 text-red-800 dark:bg-red-900/50 dark:text-red-300 border border-red-200/50";
@@ -263,6 +4271,9 @@ const DeviceCard: React.FC<DeviceCardProps> = ({ device, onCopy, onViewDetails }
         <div className="flex-1 pr-3">
           <h3 className="text-sm font-bold text-gray-900 dark:text-white line-clamp-2 leading-tight">{device.modelDesc}</h3>
           <p className="text-xs text-gray-500 dark:text-gray-400 font-mono mt-1 select-all">{device.imei}</p>
+          {device.sourceFile && (
+            <p className="text-[10px] text-gray-400 dark:text-gray-500 mt-0.5 truncate" title={device.sourceFile}>{device.sourceFile}</p>
+          )}
         </div>
         <div className="flex flex-col gap-2">
            <button 
@@ -279,6 +4290,15 @@ const DeviceCard: React.FC<DeviceCardProps> = ({ device, onCopy, onViewDetails }
           >
             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
           </button>
+          {onAnnotate && (
+            <button
+              onClick={() => setIsEditing(!isEditing)}
+              className={`p-2 rounded-xl transition-colors ${isEditing ? 'bg-purple-600 text-white' : 'bg-purple-100/50 hover:bg-purple-200/50 dark:bg-purple-900/30 text-purple-600 dark:text-purple-300'}`}
+              title="Annotate"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+            </button>
+          )}
         </div>
       </div>
       
@@ -289,15 +4309,69 @@ const DeviceCard: React.FC<DeviceCardProps> = ({ device, onCopy, onViewDetails }
         <span className={`px-2.5 py-1 rounded-lg backdrop-blur-sm ${icloudColor}`}>
           iCloud: {device.icloudLock}
         </span>
-        <span className="px-2.5 py-1 rounded-lg bg-gray-100/50 dark:bg-gray-700/30 text-gray-700 dark:text-gray-300 border border-gray-200/20 backdrop-blur-sm">
+        <span
+          className="px-2.5 py-1 rounded-lg bg-gray-100/50 dark:bg-gray-700/30 text-gray-700 dark:text-gray-300 border border-gray-200/20 backdrop-blur-sm"
+          style={groupColor ? { backgroundColor: `${groupColor}26`, color: groupColor } : undefined}
+        >
           {device.group}
         </span>
+        {receivedAt && (
+          <span className="px-2.5 py-1 rounded-lg bg-teal-100/60 text-teal-700 dark:bg-teal-900/40 dark:text-teal-300 font-bold backdrop-blur-sm" title={`Received ${formatCheckInTime(receivedAt)}`}>
+            ✓ RECEIVED
+          </span>
+        )}
+        {extraFields.filter(key => device.fields?.[key]).map(key => (
+          <span key={key} className="px-2.5 py-1 rounded-lg bg-indigo-100/50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 backdrop-blur-sm">
+            {device.fields[key].label}: {formatFieldValue(device.fields[key])}
+          </span>
+        ))}
+        {annotation?.grade && (
+          <span className="px-2.5 py-1 rounded-lg bg-purple-100/50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 font-bold backdrop-blur-sm">Grade {annotation.grade}</span>
+        )}
+        {annotation?.batteryHealth !== undefined && (
+          <span className="px-2.5 py-1 rounded-lg bg-purple-100/50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 backdrop-blur-sm">🔋 {annotation.batteryHealth}%</span>
+        )}
+        {annotation?.salePrice !== undefined && (
+          <span className="px-2.5 py-1 rounded-lg bg-purple-100/50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 backdrop-blur-sm">Sale {annotation.salePrice}</span>
+        )}
+        {annotation?.tags.map(tag => (
+          <span key={tag} className="px-2.5 py-1 rounded-lg bg-purple-500/10 text-purple-700 dark:text-purple-300 border border-purple-500/20 backdrop-blur-sm">#{tag}</span>
+        ))}
       </div>
+      {!isEditing && annotation?.notes && (
+        <p className="mt-3 text-xs text-gray-600 dark:text-gray-300 line-clamp-2" title={annotation.notes}>{annotation.notes}</p>
+      )}
+
+      {isEditing && onAnnotate && (
+        <div className="mt-4 pt-4 border-t border-gray-200/30 dark:border-white/10">
+          <AnnotationEditor annotation={annotation} onChange={(patch) => onAnnotate(device.imei, patch)} knownTags={knownTags} knownBuyers={knownBuyers} compact />
+        </div>
+      )}
     </div>
   );
 };
 
+// Open modals, oldest first; Escape closes only the top one
+const openModals: symbol[] = [];
+
 const Modal = ({ isOpen, onClose, title, children }: any) => {
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const id = Symbol('modal');
+    openModals.push(id);
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && openModals[openModals.length - 1] === id) onCloseRef.current();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      openModals.splice(openModals.indexOf(id), 1);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [isOpen]);
+
   if (!isOpen) return null;
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-md animate-fade-in">
@@ -318,13 +4392,260 @@ const Modal = ({ isOpen, onClose, title, children }: any) => {
   );
 };
 
+const ReconciliationPanel = ({
+  reconciliation,
+  tallies,
+  devices,
+  onCheckIn,
+  onReport,
+  onEnd
+}: {
+  reconciliation: Reconciliation,
+  tallies: GroupTally[],
+  devices: Device[],
+  onCheckIn: (value: string) => void,
+  onReport: () => void,
+  onEnd: () => void
+}) => {
+  const [input, setInput] = useState('');
+  const devicesByImei = useMemo(() => new Map(devices.map(d => [d.imei, d])), [devices]);
+  const expected = tallies.reduce((sum, t) => sum + t.expected, 0);
+  const received = tallies.reduce((sum, t) => sum + t.received, 0);
+  const unexpected = getUnexpectedScans(reconciliation).length;
+
+  const submit = () => {
+    input.split(/[\n, \t]+/).filter(Boolean).forEach(onCheckIn);
+    setInput('');
+  };
+
+  return (
+    <div className={`${GLASS_CARD} p-6`}>
+      <div className="flex flex-wrap justify-between items-start gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">Check-In</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {received}/{expected} received · {unexpected} unexpected · started {formatCheckInTime(reconciliation.startedAt)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onReport} className={`px-4 py-2 ${GLASS_BUTTON_PRIMARY} text-xs font-bold`}>Discrepancy Report</button>
+          <button onClick={onEnd} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}>End Check-In</button>
+        </div>
+      </div>
+
+      <input
+        type="text"
+        value={input}
+        autoFocus
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+        placeholder="Scan or type an IMEI / serial and press Enter"
+        className={`w-full p-3 mb-4 ${GLASS_INPUT} font-mono text-sm text-gray-800 dark:text-gray-200`}
+      />
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3 mb-4">
+        {tallies.map(t => (
+          <div key={t.group} className={`p-3 ${GLASS_INPUT}`}>
+            <div className="flex items-center gap-2 text-xs font-bold text-gray-700 dark:text-gray-200">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: t.color }} />
+              <span className="truncate">{t.group}</span>
+            </div>
+            <div className="text-lg font-black text-gray-900 dark:text-white mt-1">{t.received}<span className="text-sm text-gray-400">/{t.expected}</span></div>
+            <div className="h-1.5 rounded-full bg-gray-200/60 dark:bg-white/10 overflow-hidden mt-1">
+              <div className="h-full transition-all" style={{ width: `${(t.received / t.expected) * 100}%`, backgroundColor: t.color }} />
+            </div>
+          </div>
+        ))}
+        <div className={`p-3 ${GLASS_INPUT}`}>
+          <div className="text-xs font-bold text-red-500">Unexpected</div>
+          <div className="text-lg font-black text-gray-900 dark:text-white mt-1">{unexpected}</div>
+        </div>
+      </div>
+
+      {reconciliation.scans.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {reconciliation.scans.slice(0, 50).map((scan, i) => {
+            const device = scan.imei ? devicesByImei.get(scan.imei) : undefined;
+            return (
+              <div key={i} className={`text-xs px-3 py-1.5 rounded-lg flex items-center gap-3 ${!scan.imei ? 'bg-red-500/10 text-red-700 dark:text-red-300' : scan.duplicate ? 'bg-amber-500/10 text-amber-700 dark:text-amber-300' : 'bg-green-500/10 text-green-700 dark:text-green-300'}`}>
+                <span className="text-gray-400 w-16 shrink-0">{new Date(scan.at).toLocaleTimeString()}</span>
+                <span className="font-mono">{scan.value}</span>
+                <span className="flex-1 truncate">{device ? cleanModel(device.modelDesc) : 'Not in order'}</span>
+                {device?.icloudLock === 'ON' && <span className="font-bold bg-red-100 text-red-700 px-1.5 py-0.5 rounded">iCloud</span>}
+                {scan.duplicate && <span className="font-bold">{scan.imei ? 'Already received' : 'Repeat'}</span>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ScanModePanel = ({
+  scans,
+  devices,
+  groupRules,
+  extraFields,
+  onScan,
+  onCopy,
+  onViewDetails,
+  onAddToSearch,
+  onClear,
+  onClose
+}: {
+  scans: CheckInScan[],
+  devices: Device[],
+  groupRules: GroupRule[],
+  extraFields: string[],
+  onScan: (value: string) => void,
+  onCopy: (text: string) => void,
+  onViewDetails: (device: Device) => void,
+  onAddToSearch: () => void,
+  onClear: () => void,
+  onClose: () => void
+}) => {
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(true);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const devicesByImei = useMemo(() => new Map(devices.map(d => [d.imei, d])), [devices]);
+  const latest = scans[0];
+  const latestDevice = latest?.imei ? devicesByImei.get(latest.imei) : undefined;
+  const nearMatches = useMemo(
+    () => latest && !latest.imei && /^\d{15}$/.test(latest.value) ? findNearMatches(latest.value, devices) : [],
+    [latest, devices]
+  );
+  const foundImeis = Array.from(new Set(scans.filter(s => s.imei).map(s => s.imei as string)));
+  const locked = foundImeis.filter(imei => devicesByImei.get(imei)?.icloudLock === 'ON').length;
+
+  // The scanner types into whatever has focus, so the input takes it back after every click in the panel
+  const refocus = () => {
+    if (!window.getSelection()?.toString()) inputRef.current?.focus();
+  };
+
+  const submit = () => {
+    if (input.trim()) onScan(input);
+    setInput('');
+  };
+
+  return (
+    <div className={`${GLASS_CARD} p-6`} onMouseUp={refocus}>
+      <div className="flex flex-wrap justify-between items-start gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">Scan Mode</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {scans.length} scanned · {foundImeis.length} found · {scans.filter(s => !s.imei).length} not found · {locked} iCloud ON
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onAddToSearch} disabled={foundImeis.length === 0} className={`px-4 py-2 ${GLASS_BUTTON_PRIMARY} text-xs font-bold disabled:opacity-50`}>Add to Search Box</button>
+          <button onClick={() => onCopy(foundImeis.join('\n'))} disabled={foundImeis.length === 0} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold disabled:opacity-50`}>Copy IMEIs</button>
+          <button onClick={onClear} disabled={scans.length === 0} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold disabled:opacity-50`}>Clear Log</button>
+          <button onClick={onClose} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500`}>Exit Scan Mode</button>
+        </div>
+      </div>
+
+      <div className="relative mb-4">
+        <input
+          ref={inputRef}
+          type="text"
+          value={input}
+          autoFocus
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); submit(); } }}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          placeholder="Pull the trigger: each scan is looked up as soon as the scanner sends Enter"
+          className={`w-full p-3 pr-28 ${GLASS_INPUT} font-mono text-sm text-gray-800 dark:text-gray-200`}
+        />
+        <span className={`absolute right-3 top-1/2 -translate-y-1/2 text-[10px] font-bold px-2 py-0.5 rounded-full ${focused ? 'bg-green-500/15 text-green-600 dark:text-green-400' : 'bg-amber-500/15 text-amber-600 dark:text-amber-400'}`}>
+          {focused ? '● Ready' : 'Click to scan'}
+        </span>
+      </div>
+
+      {latest && (
+        <div className="mb-4">
+          {latestDevice ? (
+            <div className="space-y-2">
+              {latestDevice.icloudLock === 'ON' && (
+                <div className="bg-red-500 text-white font-bold text-sm px-4 py-2 rounded-xl shadow-lg shadow-red-500/30 animate-pulse">
+                  ⚠️ iCloud ON: {cleanModel(latestDevice.modelDesc)} is locked
+                </div>
+              )}
+              {latest.duplicate && <div className="text-xs font-bold text-amber-600 dark:text-amber-400">Already scanned in this session</div>}
+              <div className="max-w-md">
+                <DeviceCard device={latestDevice} onCopy={onCopy} onViewDetails={onViewDetails} extraFields={extraFields} groupColor={getGroupColor(latestDevice.group, groupRules)} />
+              </div>
+            </div>
+          ) : (
+            <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-xl space-y-2">
+              <div className="text-sm text-red-700 dark:text-red-300">
+                <span className="font-mono font-bold">{latest.value}</span> is not in this order
+              </div>
+              {nearMatches.length > 0 && (
+                <>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Did you mean:</div>
+                  <NearMatchChoices query={latest.value} matches={nearMatches} onPick={onScan} />
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {scans.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {scans.slice(0, 100).map((scan, i) => {
+            const device = scan.imei ? devicesByImei.get(scan.imei) : undefined;
+            return (
+              <div key={i} className={`text-xs px-3 py-1.5 rounded-lg flex items-center gap-3 ${!scan.imei ? 'bg-red-500/10 text-red-700 dark:text-red-300' : scan.duplicate ? 'bg-amber-500/10 text-amber-700 dark:text-amber-300' : 'bg-green-500/10 text-green-700 dark:text-green-300'}`}>
+                <span className="text-gray-400 w-16 shrink-0">{new Date(scan.at).toLocaleTimeString()}</span>
+                <span className="font-mono">{scan.value}</span>
+                <span className="flex-1 truncate">{device ? cleanModel(device.modelDesc) : 'Not in order'}</span>
+                {device?.icloudLock === 'ON' && <span className="font-bold bg-red-100 text-red-700 px-1.5 py-0.5 rounded">iCloud</span>}
+                {scan.duplicate && <span className="font-bold">Repeat</span>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // --- IMAGE FIX MODAL ---
+// One-tap replacements for an IMEI that isn't in the order
+const NearMatchChoices = ({ query, matches, onPick }: { query: string, matches: NearMatch[], onPick: (imei: string) => void }) => {
+  if (matches.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2">
+      {matches.map(m => (
+        <button
+          key={m.device.id}
+          onClick={() => onPick(m.device.imei)}
+          title={m.device.modelDesc}
+          className="px-2 py-1 rounded-md text-xs border bg-blue-500/10 border-blue-500/30 text-blue-700 dark:text-blue-300 hover:bg-blue-500/20 text-left"
+        >
+          <span className="font-mono">
+            {m.imei.split('').map((c, i) => (
+              <span key={i} className={m.imei.length === query.length && query[i] !== c ? 'font-bold underline' : ''}>{c}</span>
+            ))}
+          </span>
+          <span className="block text-[10px] opacity-75 truncate max-w-[180px]">{cleanModel(m.device.modelDesc)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
 const ManualFixModal = ({ 
   failedImage, 
+  devices,
   onFix, 
   onSkip 
 }: { 
   failedImage: FailedImage, 
+  devices: Device[],
   onFix: (imei: string) => void, 
   onSkip: () => void 
 }) => {
@@ -333,6 +4654,15 @@ const ManualFixModal = ({
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [inputImei, setInputImei] = useState('');
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const imeiCheck = checkImei(inputImei);
+  const suggestedValid = !!failedImage.suggestedImei && isValidImei(failedImage.suggestedImei);
+  const identifiers = failedImage.identifiers || [];
+  const nearMatches = useMemo(
+    () => imeiCheck.imei.length === 15 && !devices.some(d => d.imei === imeiCheck.imei) ? findNearMatches(imeiCheck.imei, devices) : [],
+    [imeiCheck.imei, devices]
+  );
+  const matchedCount = new Set(identifiers.map(id => id.matchedImei).filter(Boolean)).size;
 
   // Update input and zoom when the image changes
   useEffect(() => {
@@ -377,8 +4707,11 @@ const ManualFixModal = ({
     <Modal isOpen={true} onClose={onSkip} title={failedImage.suggestedImei ? "❓ Verification Needed" : "⚠️ AI Couldn't Read IMEI"}>
       <div className="flex flex-col gap-6">
         <p className="text-sm text-gray-600 dark:text-gray-300">
+          {matchedCount > 0 && `${matchedCount} device${matchedCount === 1 ? ' was' : 's were'} matched on this photo and added to the search. `}
           {failedImage.suggestedImei 
-            ? `AI read ${failedImage.suggestedImei}, but it wasn't found in the HTML file. Please verify the image.`
+            ? suggestedValid
+              ? `AI read ${failedImage.suggestedImei}, but it wasn't found in the HTML file. Please verify the image.`
+              : `AI read ${failedImage.suggestedImei}, but it fails the IMEI check digit. A digit was probably misread, please verify the image.`
             : "The image was blurry or the AI wasn't sure. Please check the photo and enter the IMEI manually."
           }
         </p>
@@ -402,7 +4735,32 @@ const ManualFixModal = ({
               cursor: isDragging ? 'grabbing' : zoom > 1 ? 'grab' : 'default'
             }}
             draggable={false}
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
           />
+          {imageSize.width > 0 && identifiers.some(id => id.box) && (
+            // Same contain-fit and transform as the image so boxes stay on their text while zooming
+            <svg
+              className="absolute inset-0 w-full h-full pointer-events-none transition-transform duration-75"
+              viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+              preserveAspectRatio="xMidYMid meet"
+              style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
+            >
+              {identifiers.filter(id => id.box).map(id => (
+                <rect
+                  key={id.value}
+                  x={id.box!.x * imageSize.width}
+                  y={id.box!.y * imageSize.height}
+                  width={id.box!.width * imageSize.width}
+                  height={id.box!.height * imageSize.height}
+                  fill={id.matchedImei ? 'rgba(34,197,94,0.15)' : 'rgba(245,158,11,0.15)'}
+                  stroke={id.matchedImei ? '#22c55e' : '#f59e0b'}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                  rx={4}
+                />
+              ))}
+            </svg>
+          )}
           <div className="absolute bottom-4 right-4 flex gap-2 z-20" onMouseDown={(e) => e.stopPropagation()}>
              <button 
               onClick={(e) => { e.stopPropagation(); setZoom(z => Math.max(1, z - 0.5)); }} 
@@ -422,22 +4780,60 @@ const ManualFixModal = ({
           </div>
         </div>
 
+        {identifiers.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <label className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">Read From Photo</label>
+            <div className="flex flex-wrap gap-2">
+              {identifiers.map(id => (
+                <button
+                  key={id.value}
+                  onClick={() => isImeiKind(id.kind) && setInputImei(id.value)}
+                  disabled={!!id.matchedImei || !isImeiKind(id.kind)}
+                  title={id.matchedImei ? `Matched ${id.matchedField} of ${id.matchedImei}` : `${Math.round(id.confidence * 100)}% confident`}
+                  className={`px-2 py-1 rounded-md text-xs font-mono border ${id.matchedImei ? 'bg-green-500/10 border-green-500/40 text-green-700 dark:text-green-300' : 'bg-amber-500/10 border-amber-500/40 text-amber-700 dark:text-amber-300 hover:bg-amber-500/20'}`}
+                >
+                  <span className="font-sans font-bold uppercase mr-1">{id.kind}</span>
+                  {id.value}
+                  {id.matchedImei && ' ✓'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="flex flex-col gap-2">
           <label className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">Manual Entry</label>
           <input 
             type="text" 
             value={inputImei}
-            onChange={(e) => setInputImei(e.target.value)}
+            onChange={(e) => setInputImei(e.target.value.replace(/\D/g, ''))}
+            inputMode="numeric"
             placeholder="Enter 15-digit IMEI"
-            className={`w-full p-4 ${GLASS_INPUT} text-lg font-mono tracking-widest text-center`}
+            className={`w-full p-4 ${GLASS_INPUT} text-lg font-mono tracking-widest text-center ${inputImei && !imeiCheck.valid ? 'ring-2 ring-red-500/50' : ''}`}
           />
+          {inputImei && (
+            <p className={`text-xs font-medium text-center ${imeiCheck.valid ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>
+              {imeiCheck.valid
+                ? imeiCheck.completed
+                  ? `Check digit ${imeiCheck.imei[14]} will be added → ${imeiCheck.imei}`
+                  : `Valid IMEI · TAC ${getTac(imeiCheck.imei)}`
+                : imeiCheck.error}
+            </p>
+          )}
         </div>
 
+        {nearMatches.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <label className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400">Closest In Order</label>
+            <NearMatchChoices query={imeiCheck.imei} matches={nearMatches} onPick={onFix} />
+          </div>
+        )}
+
         <div className="flex gap-3 pt-2">
           <button onClick={onSkip} className={`flex-1 py-3 ${GLASS_BUTTON_SECONDARY}`}>Skip</button>
           <button 
-            onClick={() => onFix(inputImei)} 
-            disabled={inputImei.length < 15}
+            onClick={() => onFix(imeiCheck.imei)} 
+            disabled={!imeiCheck.valid}
             className={`flex-1 py-3 ${GLASS_BUTTON_PRIMARY} disabled:opacity-50 disabled:cursor-not-allowed`}
           >
             Add IMEI
@@ -459,139 +4855,555 @@ const App = () => {
   const [searchResults, setSearchResults] = useState<Device[] | null>(null);
   const [icloudAlertDevices, setIcloudAlertDevices] = useState<Device[]>([]);
   const [notFoundQueries, setNotFoundQueries] = useState<string[]>([]);
+  const [invalidImeiQueries, setInvalidImeiQueries] = useState<string[]>([]);
   const [openGroups, setOpenGroups] = useState<Record<string, boolean>>({});
+  const [filters, setFilters] = useState<DeviceFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<DeviceSort>({ key: '', dir: 'asc' });
+  const [cardFieldKeys, setCardFieldKeys] = useState<string[]>(loadCardFields);
+  const [showFieldPicker, setShowFieldPicker] = useState(false);
+  const [groupRules, setGroupRules] = useState<GroupRule[]>(loadGroupRules);
+  const [showGroupRules, setShowGroupRules] = useState(false);
+  const [priceTable, setPriceTable] = useState<PriceRule[]>(loadPriceTable);
+  const [showPriceTable, setShowPriceTable] = useState(false);
+  const [comparison, setComparison] = useState<OrderComparison | null>(null);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [sharedView, setSharedView] = useState<{ name: string } | null>(null); // Set while showing a #view= link
+
+  // Offline App State
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [sharedPhotos, setSharedPhotos] = useState<File[]>([]); // Shared in before an order was open
+  const [sourceFiles, setSourceFiles] = useState<SourceFile[]>([]);
+  const [mergeReport, setMergeReport] = useState<{ conflicts: MergeConflict[]; duplicateCount: number } | null>(null);
   
   // Modals & UI State
   const [showExportModal, setShowExportModal] = useState(false);
-  const [exportText, setExportText] = useState('');
+  const [exportSource, setExportSource] = useState<Device[]>([]);
+  const [exportTemplates, setExportTemplates] = useState<ExportTemplate[]>(loadExportTemplates);
+  const [activeTemplateId, setActiveTemplateId] = useState<string>(() => localStorage.getItem('sickw-export-template-id') || DEFAULT_EXPORT_TEMPLATE.id);
+  const [showTemplateEditor, setShowTemplateEditor] = useState(false);
+  const [dataExport, setDataExport] = useState<{ scope: string; devices: Device[] } | null>(null);
+  const [exportColumns, setExportColumns] = useState<string[]>(loadExportColumns);
   const [selectedDevice, setSelectedDevice] = useState<Device | null>(null);
   
   // AI Image Processing State
-  const [isProcessingImages, setIsProcessingImages] = useState(false);
+  const [imageJobs, setImageJobs] = useState<ImageJob[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [extractionProviderId, setExtractionProviderId] = useState<ExtractionProviderId>(() => (localStorage.getItem(EXTRACTION_PROVIDER_KEY) as ExtractionProviderId) || 'local-ocr');
+  const [showSettings, setShowSettings] = useState(false);
   const [manualFixQueue, setManualFixQueue] = useState<FailedImage[]>([]);
 
-  // Theme Handling (System Sync)
+  // Annotation State (keyed by IMEI, shared across sessions)
+  const [annotations, setAnnotations] = useState<Record<string, DeviceAnnotation>>({});
+
+  // Check-In State
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [showDiscrepancyReport, setShowDiscrepancyReport] = useState(false);
+
+  // Scan Mode State (barcode gun lookups, newest first)
+  const [scanMode, setScanMode] = useState(false);
+  const [scanLog, setScanLog] = useState<CheckInScan[]>([]);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [shortcutNotice, setShortcutNotice] = useState<string | null>(null);
+  const shortcutNoticeTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const searchInputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Sickw API Check State
+  const [sickwSettings, setSickwSettings] = useState<SickwSettings>(loadSickwSettings);
+  const [sickwBalance, setSickwBalance] = useState<number | null>(null);
+  const [checkJobs, setCheckJobs] = useState<CheckJob[]>([]);
+  const [showSickwChecks, setShowSickwChecks] = useState(false);
+
+  // Session Persistence State
+  const [session, setSession] = useState<SessionMeta | null>(null);
+
+  // Theme Handling (System Sync)
+  useEffect(() => {
+    // Check local storage or system preference
+    const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
+    setIsDarkMode(mediaQuery.matches);
+
+    const handler = (e: MediaQueryListEvent) => setIsDarkMode(e.matches);
+    mediaQuery.addEventListener('change', handler);
+    return () => mediaQuery.removeEventListener('change', handler);
+  }, []);
+
+  useEffect(() => {
+    if (isDarkMode) {
+      document.body.classList.add('dark');
+      document.body.classList.remove('light');
+    } else {
+      document.body.classList.add('light');
+      document.body.classList.remove('dark');
+    }
+  }, [isDarkMode]);
+
+  useEffect(() => {
+    localStorage.setItem(CARD_FIELDS_KEY, JSON.stringify(cardFieldKeys));
+  }, [cardFieldKeys]);
+
+  useEffect(() => {
+    localStorage.setItem(EXPORT_TEMPLATES_KEY, JSON.stringify(exportTemplates));
+    localStorage.setItem('sickw-export-template-id', activeTemplateId);
+  }, [exportTemplates, activeTemplateId]);
+
+  useEffect(() => {
+    localStorage.setItem(EXPORT_COLUMNS_KEY, JSON.stringify(exportColumns));
+  }, [exportColumns]);
+
+  useEffect(() => {
+    localStorage.setItem(EXTRACTION_PROVIDER_KEY, extractionProviderId);
+  }, [extractionProviderId]);
+
+  useEffect(() => {
+    localStorage.setItem(SICKW_SETTINGS_KEY, JSON.stringify(sickwSettings));
+  }, [sickwSettings]);
+
+  const loadLocalAnnotations = () => {
+    loadAnnotations()
+      .then(setAnnotations)
+      .catch(err => console.error("Annotation Load Error:", err));
+  };
+
+  // A #view= link opens someone else's order read-only, showing their notes instead of ours
+  const openShareLinkRef = useRef<(hash: string) => void>(() => {});
+  openShareLinkRef.current = (hash: string) => {
+    decodeSharedOrder(hash.slice(SHARE_LINK_PREFIX.length))
+      .then(order => {
+        const { devices: shared } = parseKeyValueText(order.text);
+        // Save and close whatever order is open first; autosave must never write the shared devices over it
+        if (session) saveSession(snapshotSession(session)).catch(err => console.error("Session Save Error:", err));
+        flushAnnotations();
+        setSession(null);
+        setBulkQuery('');
+        setManualFixQueue([]);
+        setReconciliation(null);
+        setComparison(null);
+        setSearchResults(null);
+        setSelectedDevice(null);
+        setScanLog([]);
+        setAnnotations(Object.fromEntries(order.annotations.map(a => [a.imei, a])));
+        setDevices(applyGroupRules(shared.map(d => ({ ...d, sourceFile: order.name })), groupRules));
+        setSourceFiles([{ fileName: order.name, format: 'Shared Link', text: order.text, count: shared.length }]);
+        setSharedView({ name: order.name });
+        setView('dashboard');
+      })
+      .catch(err => {
+        console.error("Share Link Error:", err);
+        alert(err?.message === 'Share link is too large' ? "This share link is too large to open." : "This share link is damaged or incomplete. Ask for a new one.");
+        loadLocalAnnotations();
+      });
+  };
+
+  useEffect(() => {
+    if (window.location.hash.startsWith(SHARE_LINK_PREFIX)) openShareLinkRef.current(window.location.hash);
+    else loadLocalAnnotations();
+
+    // Pasting a link into a tab that already has the app open only changes the hash
+    const onHashChange = () => {
+      if (window.location.hash.startsWith(SHARE_LINK_PREFIX)) openShareLinkRef.current(window.location.hash);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // Keep attached annotations current everywhere a device is shown
+  useEffect(() => {
+    setDevices(prev => attachAnnotations(prev, annotations));
+    setSearchResults(prev => prev && attachAnnotations(prev, annotations));
+    setSelectedDevice(prev => prev && attachAnnotation(prev, annotations));
+  }, [annotations]);
+
+  useEffect(() => {
+    localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(priceTable));
+  }, [priceTable]);
+
+  // Re-group loaded devices live whenever the rules change
+  useEffect(() => {
+    localStorage.setItem(GROUP_RULES_KEY, JSON.stringify(groupRules));
+    setDevices(prev => applyGroupRules(prev, groupRules));
+  }, [groupRules]);
+
+  // Derived Stats
+  const stats = useMemo(() => {
+    const total = devices.length;
+    const activeCount = devices.filter(d => d.isActive).length;
+    const inactiveCount = total - activeCount;
+    return { total, activeCount, inactiveCount };
+  }, [devices]);
+
+  const knownImeis = useMemo(() => new Set(devices.map(d => d.imei)), [devices]);
+
+  const identifierIndex = useMemo(() => buildIdentifierIndex(devices), [devices]);
+
+  const annotationSuggestions = useMemo(() => {
+    const all = Object.values(annotations) as DeviceAnnotation[];
+    return {
+      tags: Array.from(new Set(all.flatMap(a => a.tags))).sort(),
+      buyers: Array.from(new Set(all.map(a => a.buyer).filter(Boolean) as string[])).sort()
+    };
+  }, [annotations]);
+
+  const snapshotSession = (meta: SessionMeta): StoredSession => ({
+    ...meta,
+    updatedAt: Date.now(),
+    devices,
+    sourceFiles,
+    bulkQuery,
+    manualFixQueue: manualFixQueue.map(({ id, file, suggestedImei, identifiers }) => ({ id, file, suggestedImei, identifiers })),
+    reconciliation: reconciliation || undefined
+  });
+
+  // Auto-save the open session (debounced)
+  useEffect(() => {
+    if (!session || sharedView) return;
+    const timer = setTimeout(() => {
+      saveSession(snapshotSession(session)).catch(err => console.error("Session Save Error:", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [session, sharedView, devices, sourceFiles, bulkQuery, manualFixQueue, reconciliation]);
+
+  const handleUpload = (files: ParsedFile[], append = false) => {
+    const incoming = attachAnnotations(applyGroupRules(files.flatMap(f => f.devices), groupRules), annotations);
+    const { devices: merged, conflicts, duplicateCount } = mergeDevices(append ? devices : [], incoming);
+    setDevices(merged);
+    setSourceFiles(prev => [
+      ...(append ? prev : []),
+      ...files.map(f => ({ fileName: f.fileName, format: f.format, text: f.text, count: f.devices.length, warnings: f.warnings }))
+    ]);
+    setMergeReport(duplicateCount > 0 ? { conflicts, duplicateCount } : null);
+
+    if (!append || !session) {
+      const baseName = files[0]?.fileName.replace(/\.(html?|csv|txt)$/i, '') || 'Untitled Order';
+      setSession({
+        id: generateId(),
+        name: files.length > 1 ? `${baseName} +${files.length - 1} more` : baseName,
+        createdAt: Date.now()
+      });
+      setBulkQuery('');
+      setSearchResults(null);
+      setManualFixQueue([]);
+      setReconciliation(null);
+      setComparison(null);
+    }
+    setView('dashboard');
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const stored = await loadSession(id);
+      if (!stored) return;
+      setSession({ id: stored.id, name: stored.name, createdAt: stored.createdAt });
+      // Sessions saved before the field map existed are backfilled from the raw result block
+      setDevices(attachAnnotations(applyGroupRules(
+        stored.devices.map(d => d.fields ? d : { ...d, fields: buildFieldMap([['IMEI', d.imei], ...splitKeyValueLines(d.rawText)]) }),
+        groupRules
+      ), annotations));
+      setSourceFiles(stored.sourceFiles);
+      setBulkQuery(stored.bulkQuery);
+      setManualFixQueue(stored.manualFixQueue.map(item => ({ ...item, previewUrl: URL.createObjectURL(item.file) })));
+      setReconciliation(stored.reconciliation || null);
+      setComparison(null);
+      setSearchResults(null);
+      setNotFoundQueries([]);
+      setIcloudAlertDevices([]);
+      setMergeReport(null);
+      setView('dashboard');
+    } catch (error) {
+      console.error("Session Load Error:", error);
+      alert("Could not open this order.");
+    }
+  };
+
+  // --- BUNDLES & SHARING ---
+
+  const downloadSessionBundle = async () => {
+    const meta = session || { id: generateId(), name: 'Untitled Order', createdAt: Date.now() };
+    try {
+      const bundle = await buildSessionBundle(snapshotSession(meta), annotations, activeTemplate);
+      downloadBlob(new Blob([JSON.stringify(bundle)], { type: 'application/json' }), `${toFileSlug(meta.name)}.sickw.json`);
+    } catch (error) {
+      console.error("Bundle Export Error:", error);
+      alert("Could not build the bundle. Some photos may no longer be readable.");
+    }
+  };
+
+  // Saves as a new session, so importing never overwrites an order already on this machine
+  const restoreSession = async (stored: StoredSession, bundledAnnotations: DeviceAnnotation[], template?: ExportTemplate) => {
+    const id = generateId();
+    await saveSession({ ...stored, id, updatedAt: Date.now() });
+
+    // Notes merge per device; whichever side edited last wins
+    const local = await loadAnnotations();
+    const newer = bundledAnnotations.filter(a => !local[a.imei] || local[a.imei].updatedAt < a.updatedAt);
+    await Promise.all(newer.map(saveAnnotation));
+
+    if (template) {
+      const existing = exportTemplates.find(t => t.id === template.id);
+      if (existing && JSON.stringify(existing) === JSON.stringify(template)) {
+        setActiveTemplateId(existing.id);
+      } else {
+        const imported = existing ? { ...template, id: generateId(), name: `${template.name} (imported)` } : template;
+        setExportTemplates(prev => [...prev, imported]);
+        setActiveTemplateId(imported.id);
+      }
+    }
+
+    if (sharedView) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setSharedView(null);
+    }
+    await handleOpenSession(id);
+    // Set after the session opens so the new devices pick the notes up
+    setAnnotations({ ...local, ...Object.fromEntries(newer.map(a => [a.imei, a])) });
+  };
+
+  const handleImportBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bundle = parseSessionBundle(await fileToText(file));
+      await restoreSession(unbundleSession(bundle), bundle.annotations || [], bundle.exportTemplate);
+    } catch (error) {
+      console.error("Bundle Import Error:", error);
+      alert(error instanceof Error && error.message ? error.message : "Could not import this bundle.");
+    }
+  };
+
+  const saveSharedCopy = async () => {
+    if (!sharedView) return;
+    try {
+      await restoreSession(snapshotSession({ id: '', name: sharedView.name, createdAt: Date.now() }), Object.values(annotations));
+    } catch (error) {
+      console.error("Shared Copy Error:", error);
+      alert("Could not save a copy of this order.");
+    }
+  };
+
+  const closeSharedView = () => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setSharedView(null);
+    setDevices([]);
+    setSourceFiles([]);
+    setSearchResults(null);
+    loadLocalAnnotations();
+    setView('upload');
+  };
+
+  const handleAddFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+    const { parsed, errors } = await readReportFiles(e.target.files);
+    if (errors.length > 0) alert(errors.join('\n\n'));
+    if (parsed.length > 0) handleUpload(parsed, true);
+    e.target.value = '';
+  };
+
+  // --- IMAGE EXTRACTION LOGIC ---
+  // The queue outlives renders, so jobs read the current order and provider through this ref
+  const extractionContextRef = useRef({ identifierIndex, extractionProviderId });
+  extractionContextRef.current = { identifierIndex, extractionProviderId };
+  const imageQueueRef = useRef<ImageQueue | null>(null);
+
+  const runImageJob = async (job: ImageJob, signal: AbortSignal): Promise<Pick<ImageJob, 'status' | 'imeis'>> => {
+    const { identifierIndex, extractionProviderId } = extractionContextRef.current;
+    const { identifiers } = await extractIdentifiers(job.file, identifierIndex, extractionProviderId, signal);
+    if (signal.aborted) return { status: 'cancelled' };
+
+    // Every device seen on the photo goes straight to the search box, whichever of its identifiers was read
+    const matched = Array.from(new Set(identifiers.map(id => id.matchedImei).filter(Boolean) as string[]));
+    if (matched.length > 0) {
+      setBulkQuery(prev => {
+        const existing = prev ? prev + '\n' : '';
+        return existing + matched.join('\n');
+      });
+    }
+
+    // A primary IMEI that didn't match (or fails its check digit) is probably a misread, so the photo goes to review
+    const unmatched = identifiers.filter(id => id.kind === 'imei' && !id.matchedImei);
+    if (matched.length > 0 && unmatched.length === 0) return { status: 'matched', imeis: matched };
+
+    const suggested = identifiers.find(id => isImeiKind(id.kind) && !id.matchedImei && id.value.length === 15);
+    setManualFixQueue(prev => [...prev, {
+      id: job.id,
+      file: job.file,
+      previewUrl: URL.createObjectURL(job.file),
+      suggestedImei: suggested?.value, // Pass what the extractor found
+      identifiers
+    }]);
+    return { status: 'review', imeis: matched.length > 0 ? matched : suggested ? [suggested.value] : undefined };
+  };
+
+  const getImageQueue = () => {
+    if (!imageQueueRef.current) imageQueueRef.current = createImageQueue(runImageJob, setImageJobs);
+    return imageQueueRef.current;
+  };
+
+  const processImageFiles = (files: File[]) => {
+    getImageQueue().add(files);
+  };
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+    processImageFiles(Array.from(e.target.files) as File[]);
+    // Reset file input
+    e.target.value = '';
+  };
+
+  // --- SICKW API CHECKS ---
+  const sickwSettingsRef = useRef(sickwSettings);
+  sickwSettingsRef.current = sickwSettings;
+  const checkQueueRef = useRef<CheckQueue | null>(null);
+  const importedCheckIdsRef = useRef(new Set<string>());
+
+  const runCheckJob = async (job: CheckJob, signal: AbortSignal): Promise<Pick<CheckJob, 'result' | 'cost'>> => {
+    const { result, cost, balance } = await withBackoff(() => runSickwCheck(sickwSettingsRef.current, job.imei, job.serviceId, signal), signal);
+    if (balance !== null) setSickwBalance(balance);
+    return { result, cost };
+  };
+
+  const getCheckQueue = () => {
+    if (!checkQueueRef.current) checkQueueRef.current = createCheckQueue(runCheckJob, setCheckJobs);
+    return checkQueueRef.current;
+  };
+
+  // Finished checks join the order as one source file once nothing is left running
   useEffect(() => {
-    // Check local storage or system preference
-    const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
-    setIsDarkMode(mediaQuery.matches);
+    if (checkJobs.some(isCheckJobActive)) return;
+    const ready = checkJobs.filter(j => j.status === 'done' && j.result && !importedCheckIdsRef.current.has(j.id));
+    if (ready.length === 0) return;
+    ready.forEach(j => importedCheckIdsRef.current.add(j.id));
 
-    const handler = (e: MediaQueryListEvent) => setIsDarkMode(e.matches);
-    mediaQuery.addEventListener('change', handler);
-    return () => mediaQuery.removeEventListener('change', handler);
+    const text = ready.map(j => j.result).join('\n\n');
+    const { devices: checked, warnings } = parseKeyValueText(text);
+    const fileName = `Sickw API ${new Date().toLocaleString()}`;
+    handleUpload([{ fileName, format: 'Sickw API', text, devices: checked.map(d => ({ ...d, sourceFile: fileName })), warnings }], devices.length > 0);
+  }, [checkJobs]);
+
+  // --- OFFLINE APP ---
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply))
+      .catch(err => console.error("Service Worker Error:", err));
   }, []);
 
+  // Opened from the phone's share sheet: reports become an order, photos are read against it
   useEffect(() => {
-    if (isDarkMode) {
-      document.body.classList.add('dark');
-      document.body.classList.remove('light');
-    } else {
-      document.body.classList.add('light');
-      document.body.classList.remove('dark');
-    }
-  }, [isDarkMode]);
+    const params = new URLSearchParams(window.location.search);
+    if (!params.has('share-target')) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.hash);
 
-  // Derived Stats
-  const stats = useMemo(() => {
-    const total = devices.length;
-    const activeCount = devices.filter(d => d.isActive).length;
-    const inactiveCount = total - activeCount;
-    return { total, activeCount, inactiveCount };
-  }, [devices]);
+    (async () => {
+      const files = await readSharedFiles();
+      const photos = files.filter(f => f.type.startsWith('image/'));
+      const reports = files.filter(f => !f.type.startsWith('image/'));
+      if (reports.length > 0) {
+        const { parsed, errors } = await readReportFiles(reports);
+        if (errors.length > 0) alert(errors.join('\n\n'));
+        if (parsed.length > 0) handleUpload(parsed);
+        else if (photos.length === 0) return;
+      } else if (photos.length > 0) {
+        // Photos alone are matched against the order we worked on last
+        const [latest] = await listSessions();
+        if (!latest) return alert("Open or upload an order first, then share the photos again.");
+        await handleOpenSession(latest.id);
+      }
+      setSharedPhotos(photos);
+    })().catch(err => {
+      console.error("Share Target Error:", err);
+      alert("Could not read the shared files.");
+    });
+  }, []);
 
-  const handleUpload = (parsedDevices: Device[]) => {
-    setDevices(parsedDevices);
-    setView('dashboard');
+  // Queued once the order has rendered, so the photos are matched against its devices
+  useEffect(() => {
+    if (sharedPhotos.length === 0 || devices.length === 0) return;
+    processImageFiles(sharedPhotos);
+    setSharedPhotos([]);
+  }, [sharedPhotos, devices]);
+
+  // --- ANNOTATION LOGIC ---
+  // Latest unsaved value per IMEI (null means delete), written after ANNOTATION_SAVE_DELAY_MS
+  const pendingAnnotations = useRef(new Map<string, DeviceAnnotation | null>());
+  const annotationSaveTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const flushAnnotations = () => {
+    clearTimeout(annotationSaveTimer.current);
+    const pending = Array.from(pendingAnnotations.current);
+    pendingAnnotations.current.clear();
+    pending.forEach(([imei, annotation]) => {
+      (annotation ? saveAnnotation(annotation) : deleteAnnotation(imei)).catch(err => console.error("Annotation Save Error:", err));
+    });
   };
 
-  // --- AI IMAGE LOGIC ---
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || e.target.files.length === 0) return;
-    
-    setIsProcessingImages(true);
-    const files = Array.from(e.target.files);
-    
-    // Initialize Gemini
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const newImeis: string[] = [];
-    const failed: FailedImage[] = [];
+  // Built from the latest state, so quick successive edits each apply on top of the previous one
+  const updateAnnotation = (imei: string, patch: Partial<DeviceAnnotation>) => {
+    setAnnotations(prev => {
+      const next: DeviceAnnotation = { tags: [], ...prev[imei], ...patch, imei, updatedAt: Date.now() };
+      const empty = isEmptyAnnotation(next);
+      pendingAnnotations.current.set(imei, empty ? null : next);
+      const updated = { ...prev };
+      if (empty) delete updated[imei];
+      else updated[imei] = next;
+      return updated;
+    });
+    clearTimeout(annotationSaveTimer.current);
+    annotationSaveTimer.current = setTimeout(flushAnnotations, ANNOTATION_SAVE_DELAY_MS);
+  };
 
-    for (const file of files) {
-      try {
-        const base64 = await fileToBase64(file);
-        
-        // Use gemini-3-pro-preview as requested for image analysis
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-pro-preview',
-          contents: {
-            parts: [
-              {
-                inlineData: {
-                  mimeType: file.type,
-                  data: base64
-                }
-              },
-              {
-                text: "Extract the primary IMEI (15 digit number) from this image. It is usually labeled IMEI or IMEI 1. Return ONLY the 15 digit number. If you cannot clearly see a 15-digit IMEI, return the word 'FAILED'."
-              }
-            ]
-          }
-        });
+  // Don't lose the last edit when the tab is closed mid-pause
+  useEffect(() => {
+    const onPageHide = () => flushAnnotations();
+    window.addEventListener('pagehide', onPageHide);
+    return () => window.removeEventListener('pagehide', onPageHide);
+  }, []);
 
-        const text = response.text?.trim() || "FAILED";
-        // Clean up response (remove markdown if any)
-        const cleanText = text.replace(/[^0-9]/g, '');
-
-        if (cleanText.length === 15) {
-          // Check if IMEI exists in the loaded devices list
-          const existsInHtml = devices.some(d => d.imei === cleanText);
-
-          if (existsInHtml) {
-             newImeis.push(cleanText);
-          } else {
-            // Push to manual fix queue if found but NOT in list
-            failed.push({
-              id: Math.random().toString(36).substr(2, 9),
-              file: file,
-              previewUrl: URL.createObjectURL(file),
-              suggestedImei: cleanText // Pass what AI found
-            });
-          }
-        } else {
-          // Push to manual fix queue if invalid format
-          failed.push({
-            id: Math.random().toString(36).substr(2, 9),
-            file: file,
-            previewUrl: URL.createObjectURL(file)
-          });
-        }
-      } catch (error) {
-        console.error("AI Error:", error);
-        failed.push({
-          id: Math.random().toString(36).substr(2, 9),
-          file: file,
-          previewUrl: URL.createObjectURL(file)
-        });
-      }
-    }
+  // --- CHECK-IN LOGIC ---
+  // Scans can arrive several per frame, so each check-in builds on the latest state rather than the last render
+  const reconciliationRef = useRef<Reconciliation | null>(null);
+  reconciliationRef.current = reconciliation;
 
-    // Add found IMEIs to the bulk query box
-    if (newImeis.length > 0) {
-      setBulkQuery(prev => {
-        const existing = prev ? prev + '\n' : '';
-        return existing + newImeis.join('\n');
-      });
+  const handleCheckIn = (value: string) => {
+    const current = reconciliationRef.current;
+    if (!current?.active) return;
+    const { rec, scan } = checkInValue(current, value, identifierIndex);
+    reconciliationRef.current = rec;
+    setReconciliation(rec);
+    playScanTone(!!scan.imei && !scan.duplicate);
+    const device = scan.imei ? devices.find(d => d.imei === scan.imei) : undefined;
+    if (device && !scan.duplicate && device.icloudLock === "ON") setIcloudAlertDevices([device]);
+  };
+
+  const startCheckIn = () => {
+    if (!reconciliation || window.confirm("Start a new check-in? The current received list will be cleared.")) {
+      setReconciliation(createReconciliation());
     }
+  };
 
-    // Trigger Manual Fix Modal if needed
-    if (failed.length > 0) {
-      setManualFixQueue(prev => [...prev, ...failed]);
+  const resumeCheckIn = () => {
+    setReconciliation(prev => prev ? { ...prev, active: true } : createReconciliation());
+  };
+
+  const endCheckIn = () => {
+    setReconciliation(prev => prev ? { ...prev, active: false } : prev);
+    setShowDiscrepancyReport(true);
+  };
+
+  const downloadDiscrepancyReport = () => {
+    if (!reconciliation || !discrepancyReport) return;
+    const rows = discrepancyReportRows(discrepancyReport, reconciliation);
+    downloadBlob(new Blob(['\ufeff' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${toFileSlug(`${session?.name || 'sickw-order'} discrepancies`)}.csv`);
+  };
+
+  const handleScannedImei = (imei: string) => {
+    if (reconciliation?.active) {
+      handleCheckIn(imei);
+      return;
     }
-    
-    setIsProcessingImages(false);
-    // Reset file input
-    e.target.value = '';
+    setBulkQuery(prev => {
+      const existing = prev ? prev + '\n' : '';
+      return existing + imei;
+    });
   };
 
   const handleManualFix = (imei: string) => {
@@ -617,11 +5429,13 @@ const App = () => {
       return;
     }
 
-    const rawQueries = bulkQuery.split(/[\n, \t]+/).map(s => s.trim()).filter(Boolean);
-    const uniqueQueries = Array.from(new Set(rawQueries));
+    const rawQueries: string[] = bulkQuery.split(/[\n, \t]+/).map(s => s.trim()).filter(Boolean);
+    // 14-digit entries are IMEIs missing their check digit
+    const uniqueQueries = Array.from(new Set(rawQueries.map(q => /^\d{14}$/.test(q) ? checkImei(q).imei : q)));
     
     const foundDevicesMap = new Map<string, Device>();
     const missing: string[] = [];
+    const invalid = uniqueQueries.filter(q => /^\d{15}$/.test(q) && !isValidImei(q));
 
     uniqueQueries.forEach(q => {
       const matches = devices.filter(d => d.imei.includes(q) || (d.serial && d.serial.includes(q)));
@@ -635,11 +5449,29 @@ const App = () => {
     const results = Array.from(foundDevicesMap.values());
     setSearchResults(results);
     setNotFoundQueries(missing);
+    setInvalidImeiQueries(invalid);
 
     const locked = results.filter(d => d.icloudLock === "ON");
     if (locked.length > 0) setIcloudAlertDevices(locked);
   };
 
+  const notFoundSuggestions = useMemo(() => {
+    const suggestions: Record<string, NearMatch[]> = {};
+    notFoundQueries.forEach(q => { suggestions[q] = findNearMatches(q, devices); });
+    return suggestions;
+  }, [notFoundQueries, devices]);
+
+  // Swap a not-found query for the chosen device, in the search box and in the current results
+  const acceptNearMatch = (query: string, imei: string) => {
+    const device = devices.find(d => d.imei === imei);
+    if (!device) return;
+    setBulkQuery(prev => prev.replace(/[^\n, \t]+/g, token => token === query || (/^\d{14}$/.test(token) && checkImei(token).imei === query) ? imei : token));
+    setSearchResults(prev => prev && prev.some(d => d.id === device.id) ? prev : [...(prev || []), device]);
+    setNotFoundQueries(prev => prev.filter(q => q !== query));
+    setInvalidImeiQueries(prev => prev.filter(q => q !== query));
+    if (device.icloudLock === "ON") setIcloudAlertDevices(prev => [...prev, device]);
+  };
+
   const clearSearch = () => {
     setBulkQuery('');
     setSearchResults(null);
@@ -647,38 +5479,206 @@ const App = () => {
     setIcloudAlertDevices([]);
   };
 
+  // --- SCAN MODE LOGIC ---
+  // Same as check-in: a scanner can send several bursts before React re-renders
+  const scanLogRef = useRef<CheckInScan[]>([]);
+  scanLogRef.current = scanLog;
+
+  const handleScanLookup = (value: string) => {
+    const scan = lookupScan(value, identifierIndex, scanLogRef.current);
+    scanLogRef.current = [scan, ...scanLogRef.current];
+    setScanLog(scanLogRef.current);
+    const device = scan.imei ? devices.find(d => d.imei === scan.imei) : undefined;
+    playScanTone(!!device && device.icloudLock !== "ON");
+    if (device && !scan.duplicate && device.icloudLock === "ON") setIcloudAlertDevices([device]);
+  };
+
+  const addScansToSearch = () => {
+    setBulkQuery(prev => {
+      const existing = new Set(prev.split(/[\n, \t]+/).filter(Boolean));
+      const added = Array.from(new Set(scanLog.filter(s => s.imei && !existing.has(s.imei)).map(s => s.imei as string))).reverse();
+      return [prev.trim(), ...added].filter(Boolean).join('\n');
+    });
+  };
+
+  const clearScanLog = () => {
+    if (scanLog.length === 0 || window.confirm(`Clear ${scanLog.length} scans from the log?`)) setScanLog([]);
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
 
+  const fieldCatalog = useMemo(() => collectFieldCatalog(devices), [devices]);
+
+  const filteredDevices = useMemo(() => {
+    const matched = hasActiveFilters(filters) ? devices.filter(d => matchesFilters(d, filters)) : devices;
+    return sortDevices(matched, sort);
+  }, [devices, filters, sort]);
+
+  const filteredResults = useMemo(() => {
+    if (!searchResults) return null;
+    const matched = hasActiveFilters(filters) ? searchResults.filter(d => matchesFilters(d, filters)) : searchResults;
+    return sortDevices(matched, sort);
+  }, [searchResults, filters, sort]);
+
   const copyGroup = (groupName: string) => {
-    const groupDevices = devices.filter(d => d.group === groupName);
+    const groupDevices = filteredDevices.filter(d => d.group === groupName);
     const text = groupDevices.map(d => `${d.modelDesc} ${d.imei}`).join('\n');
     copyToClipboard(text);
   };
 
+  const activeTemplate = exportTemplates.find(t => t.id === activeTemplateId) || exportTemplates[0];
+
+  const groupNames = useMemo(() => groupRules.map(r => r.name).concat(FALLBACK_GROUP), [groupRules]);
+  const staleTemplateGroups = useMemo(() => findStaleGroupValues(activeTemplate, groupNames), [activeTemplate, groupNames]);
+
+  const renameGroupInTemplates = (from: string, to: string) => {
+    setExportTemplates(prev => prev.map(t => renameTemplateGroup(t, from, to)));
+  };
+
+  const exportText = useMemo(() => generateExportText(exportSource, activeTemplate, cardFieldKeys), [exportSource, activeTemplate, cardFieldKeys]);
+
   const handleExport = () => {
-    const text = generateExportText(searchResults || devices);
-    setExportText(text);
+    setExportSource(filteredResults || filteredDevices);
     setShowExportModal(true);
   };
 
+  const updateActiveTemplate = (template: ExportTemplate) => {
+    setExportTemplates(prev => prev.map(t => t.id === template.id ? template : t));
+  };
+
+  const duplicateTemplate = () => {
+    const copy = { ...activeTemplate, id: generateId(), name: `${activeTemplate.name} Copy` };
+    setExportTemplates(prev => [...prev, copy]);
+    setActiveTemplateId(copy.id);
+  };
+
+  const deleteTemplate = () => {
+    if (exportTemplates.length <= 1 || !window.confirm(`Delete "${activeTemplate.name}"?`)) return;
+    const remaining = exportTemplates.filter(t => t.id !== activeTemplate.id);
+    setExportTemplates(remaining);
+    setActiveTemplateId(remaining[0].id);
+  };
+
+  const restoreDefaultTemplate = () => {
+    setExportTemplates(prev => [DEFAULT_EXPORT_TEMPLATE, ...prev.filter(t => t.id !== DEFAULT_EXPORT_TEMPLATE.id)]);
+    setActiveTemplateId(DEFAULT_EXPORT_TEMPLATE.id);
+  };
+
   const toggleGroup = (group: string) => {
     setOpenGroups(prev => ({...prev, [group]: !prev[group]}));
   };
 
-  const groups: CarrierGroup[] = useMemo(() => {
-    const gMap: Record<string, Device[]> = { 'Unlocked': [], 'T-Mobile/Sprint': [], 'AT&T': [], 'Verizon': [], 'Other': [] };
-    devices.forEach(d => {
-      if (gMap[d.group]) gMap[d.group].push(d);
-      else { if (!gMap['Other']) gMap['Other'] = []; gMap['Other'].push(d); }
-    });
-    const sortOrder = ['Unlocked', 'T-Mobile/Sprint', 'AT&T', 'Verizon', 'Other'];
-    return sortOrder.map(name => ({ name, devices: gMap[name] || [], count: (gMap[name] || []).length })).filter(g => g.count > 0);
-  }, [devices]);
+  const groups: CarrierGroup[] = useMemo(() => groupDevices(filteredDevices, groupRules), [filteredDevices, groupRules]);
+
+  // --- KEYBOARD SHORTCUTS ---
+  // Registered once; the handler is swapped each render so it always sees current state
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutHandlerRef.current = (e: KeyboardEvent) => {
+    if (view !== 'dashboard' || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+    // Other windows keep the keyboard to themselves; the details window still pages through devices
+    if (openModals.length > 0 && !selectedDevice) return;
+
+    // Letters match with Caps Lock or Shift too
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    const step = key === 'j' || key === 'ArrowRight' ? 1 : key === 'k' || key === 'ArrowLeft' ? -1 : 0;
+    if (step) {
+      // Same order as on screen: search results, or the groups top to bottom
+      const visible = filteredResults || groups.flatMap(g => g.devices);
+      if (visible.length === 0) return;
+      e.preventDefault();
+      const current = selectedDevice ? visible.findIndex(d => d.id === selectedDevice.id) : -1;
+      const next = current === -1 ? (step > 0 ? 0 : visible.length - 1) : Math.min(Math.max(current + step, 0), visible.length - 1);
+      setSelectedDevice(visible[next]);
+      return;
+    }
+
+    if (key === 'c') {
+      const lastFound = scanLog.find(s => s.imei)?.imei;
+      const imei = selectedDevice?.imei || lastFound;
+      if (imei) copyToClipboard(imei);
+      clearTimeout(shortcutNoticeTimer.current);
+      setShortcutNotice(imei ? `Copied ${imei}` : 'Open or scan a device to copy its IMEI');
+      shortcutNoticeTimer.current = setTimeout(() => setShortcutNotice(null), 1500);
+      return;
+    }
+    if (openModals.length > 0) return;
+
+    if (key === '/') {
+      e.preventDefault();
+      searchInputRef.current?.focus();
+    } else if (key === 's' && !reconciliation?.active) {
+      e.preventDefault(); // Otherwise the "s" lands in the scan input that just took focus
+      setScanMode(prev => !prev);
+    } else if (key === 'e') {
+      handleExport();
+    } else if (key === '?') {
+      setShowShortcuts(true);
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Valuation follows the active filters so a narrowed view shows what that slice is worth
+  const valuation = useMemo(() => {
+    const source = filteredResults || filteredDevices;
+    return {
+      lot: sumValuation('Lot', source, priceTable),
+      groups: groupDevices(source, groupRules).map(g => sumValuation(g.name, g.devices, priceTable, g.color)),
+      sections: activeTemplate.sections.map(sec => sumValuation(sec.heading, getSectionDevices(source, sec, activeTemplate), priceTable))
+    };
+  }, [filteredResults, filteredDevices, priceTable, groupRules, activeTemplate]);
+
+  // Current group rules are applied to the older order too, so rule edits don't show up as changes
+  const orderDiffs = useMemo(
+    () => comparison ? diffOrders(applyGroupRules(comparison.previous, groupRules), devices) : [],
+    [comparison, devices, groupRules]
+  );
+
+  const selectedValuation = selectedDevice ? valueDevice(selectedDevice, priceTable) : null;
+
+  const checkInTallies = useMemo(
+    () => reconciliation ? tallyReconciliation(groupDevices(devices, groupRules), reconciliation) : [],
+    [reconciliation, devices, groupRules]
+  );
+
+  const discrepancyReport = useMemo(
+    () => reconciliation && showDiscrepancyReport ? buildDiscrepancyReport(devices, reconciliation) : null,
+    [reconciliation, showDiscrepancyReport, devices]
+  );
 
   // --- VIEWS ---
 
+  const sickwChecksModal = (
+    <Modal isOpen={showSickwChecks} onClose={() => setShowSickwChecks(false)} title="Sickw API Checks">
+      <SickwChecksPanel
+        settings={sickwSettings}
+        onSettingsChange={setSickwSettings}
+        jobs={checkJobs}
+        balance={sickwBalance}
+        onBalance={setSickwBalance}
+        searchBoxText={bulkQuery}
+        onRun={(imeis, serviceId) => getCheckQueue().add(imeis, serviceId)}
+        onCancel={() => getCheckQueue().cancel()}
+        onRetry={(ids) => getCheckQueue().retry(ids)}
+        onClear={() => getCheckQueue().clear()}
+      />
+    </Modal>
+  );
+
+  const updateBanner = applyUpdate && (
+    <div className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] ${GLASS_CARD} px-5 py-3 flex items-center gap-4 text-sm`}>
+      <span className="font-bold text-gray-800 dark:text-white">A new version is available.</span>
+      <button onClick={applyUpdate} className={`px-4 py-1.5 ${GLASS_BUTTON_PRIMARY} text-xs font-bold`}>Reload</button>
+      <button onClick={() => setApplyUpdate(null)} className="text-xs font-bold text-gray-500 dark:text-gray-400">Later</button>
+    </div>
+  );
+
   if (view === 'upload') {
     return (
       <div className="min-h-screen flex items-center justify-center p-6 relative overflow-hidden">
@@ -697,10 +5697,29 @@ const App = () => {
           
           <FileUpload onUpload={handleUpload} />
 
+          <button onClick={() => setShowSickwChecks(true)} className={`mt-4 w-full py-3 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+            Run Checks via Sickw API
+          </button>
+
+          <label className={`mt-3 block w-full py-3 ${GLASS_BUTTON_SECONDARY} text-sm font-bold cursor-pointer`}>
+            Import Session Bundle
+            <input type="file" accept=".json" onChange={handleImportBundle} className="hidden" />
+          </label>
+
+          <SessionList
+            currentId={session?.id}
+            onOpen={handleOpenSession}
+            onRenamed={(id, name) => setSession(prev => prev && prev.id === id ? { ...prev, name } : prev)}
+            onDeleted={(id) => setSession(prev => prev && prev.id === id ? null : prev)}
+          />
+
           <div className="mt-8 text-xs text-gray-400 dark:text-gray-500 font-medium tracking-widest uppercase">
             Created by Hamza
           </div>
         </div>
+
+        {sickwChecksModal}
+        {updateBanner}
       </div>
     );
   }
@@ -718,20 +5737,84 @@ const App = () => {
         {/* Header */}
         <div className={`${GLASS_CARD} p-4 md:p-6 flex flex-col md:flex-row justify-between items-center gap-4 sticky top-4 z-40`}>
           <div className="text-center md:text-left">
-            <h1 className="text-2xl font-black tracking-tight text-gray-900 dark:text-white cursor-pointer" onClick={() => setView('upload')}>
+            <h1 className="text-2xl font-black tracking-tight text-gray-900 dark:text-white cursor-pointer" onClick={() => sharedView ? closeSharedView() : setView('upload')}>
               Sickw Orders
             </h1>
+            {session && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 font-medium truncate max-w-xs">{session.name}</p>
+            )}
+            {sharedView && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 font-medium truncate max-w-xs">
+                <span className="px-1.5 py-0.5 mr-1 rounded bg-amber-100/60 text-amber-700 font-bold">Read-only</span>
+                {sharedView.name}
+              </p>
+            )}
             <div className="flex gap-2 mt-2 justify-center md:justify-start">
               <span className="px-2 py-0.5 rounded-md bg-blue-100/50 text-blue-700 text-xs font-bold">Total: {stats.total}</span>
               <span className="px-2 py-0.5 rounded-md bg-green-100/50 text-green-700 text-xs font-bold">Active: {stats.activeCount}</span>
+              <span className="px-2 py-0.5 rounded-md bg-red-100/50 text-red-700 text-xs font-bold">Inactive: {stats.inactiveCount}</span>
+              <span className="px-2 py-0.5 rounded-md bg-purple-100/50 text-purple-700 text-xs font-bold" title={sourceFiles.map(f => `${f.fileName} · ${f.format} (${f.count})`).join('\n')}>Files: {sourceFiles.length}</span>
             </div>
           </div>
           <div className="flex flex-wrap gap-3 justify-center">
             <button onClick={handleExport} className={`px-5 py-2.5 ${GLASS_BUTTON_PRIMARY} text-sm font-bold flex items-center gap-2`}>
               {searchResults ? 'Export Results' : 'Export All'}
             </button>
-            <button onClick={() => setView('upload')} className={`px-5 py-2.5 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
-              New Upload
+            <button
+              onClick={() => setDataExport({ scope: searchResults ? 'Search Results' : 'All Devices', devices: filteredResults || filteredDevices })}
+              className={`px-5 py-2.5 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}
+            >
+              Download
+            </button>
+            {!sharedView && (
+              <div className="relative">
+                <input
+                  type="file"
+                  multiple
+                  accept={REPORT_FILE_ACCEPT}
+                  onChange={handleAddFiles}
+                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                />
+                <button className={`px-5 py-2.5 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+                  Add Files
+                </button>
+              </div>
+            )}
+            {!sharedView && (
+              <button onClick={() => setShowSickwChecks(true)} className={`px-5 py-2.5 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+                Run Checks
+              </button>
+            )}
+            <button onClick={() => setShowAnalytics(!showAnalytics)} className={`px-5 py-2.5 ${showAnalytics ? GLASS_BUTTON_PRIMARY : GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+              Analytics
+            </button>
+            {sharedView ? (
+              <>
+                <button onClick={saveSharedCopy} className={`px-5 py-2.5 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+                  Save a Copy
+                </button>
+                <button onClick={closeSharedView} className={`px-5 py-2.5 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+                  Close
+                </button>
+              </>
+            ) : (
+              <>
+                <button onClick={() => setShowCompare(true)} className={`px-5 py-2.5 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+                  Compare
+                </button>
+                <button onClick={() => setShowShare(true)} className={`px-5 py-2.5 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+                  Share
+                </button>
+                <button onClick={() => setView('upload')} className={`px-5 py-2.5 ${GLASS_BUTTON_SECONDARY} text-sm font-bold`}>
+                  New Upload
+                </button>
+              </>
+            )}
+            <button onClick={() => setShowShortcuts(true)} className={`p-2.5 ${GLASS_BUTTON_SECONDARY} rounded-full`} title="Keyboard shortcuts (?)">
+              ⌨️
+            </button>
+            <button onClick={() => setShowSettings(true)} className={`p-2.5 ${GLASS_BUTTON_SECONDARY} rounded-full`} title="Settings">
+              ⚙️
             </button>
             <button onClick={() => setIsDarkMode(!isDarkMode)} className={`p-2.5 ${GLASS_BUTTON_SECONDARY} rounded-full`}>
               {isDarkMode ? '🌞' : '🌙'}
@@ -739,6 +5822,34 @@ const App = () => {
           </div>
         </div>
 
+        <ParseDiagnosticsPanel files={sourceFiles} />
+
+        {reconciliation?.active && (
+          <ReconciliationPanel
+            reconciliation={reconciliation}
+            tallies={checkInTallies}
+            devices={devices}
+            onCheckIn={handleCheckIn}
+            onReport={() => setShowDiscrepancyReport(true)}
+            onEnd={endCheckIn}
+          />
+        )}
+
+        {scanMode && !reconciliation?.active && (
+          <ScanModePanel
+            scans={scanLog}
+            devices={devices}
+            groupRules={groupRules}
+            extraFields={cardFieldKeys}
+            onScan={handleScanLookup}
+            onCopy={copyToClipboard}
+            onViewDetails={setSelectedDevice}
+            onAddToSearch={addScansToSearch}
+            onClear={clearScanLog}
+            onClose={() => setScanMode(false)}
+          />
+        )}
+
         {/* Bulk Search & AI */}
         <div className={`${GLASS_CARD} p-6`}>
           <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-2">
@@ -746,28 +5857,59 @@ const App = () => {
                <h2 className="text-xl font-bold text-gray-800 dark:text-white">Bulk Search</h2>
                <p className="text-sm text-gray-500 dark:text-gray-400">Search via Text or AI Camera</p>
             </div>
-            {searchResults && (
-              <span className="px-3 py-1 bg-blue-500 text-white rounded-full text-xs font-bold shadow-lg shadow-blue-500/30">
-                Found: {searchResults.length}
-              </span>
-            )}
+            <div className="flex items-center gap-2">
+              {searchResults && (
+                <span className="px-3 py-1 bg-blue-500 text-white rounded-full text-xs font-bold shadow-lg shadow-blue-500/30">
+                  Found: {searchResults.length}
+                </span>
+              )}
+              {!reconciliation?.active && (
+                <button onClick={() => setScanMode(!scanMode)} className={`px-3 py-1.5 ${scanMode ? GLASS_BUTTON_PRIMARY : GLASS_BUTTON_SECONDARY} text-xs font-bold`} title="Look up each barcode-gun scan as it arrives (S)">
+                  🔫 Scan Mode
+                </button>
+              )}
+              {!reconciliation?.active && !sharedView && (
+                <>
+                  {reconciliation && (
+                    <button onClick={resumeCheckIn} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>
+                      Resume Check-In
+                    </button>
+                  )}
+                  <button onClick={startCheckIn} className={`px-3 py-1.5 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>
+                    📦 {reconciliation ? 'New Check-In' : 'Start Check-In'}
+                  </button>
+                </>
+              )}
+            </div>
           </div>
           
+          {isScanning && (
+            <CameraScanner
+              initialImeis={bulkQuery.split(/[\n, \t]+/).filter(Boolean)}
+              knownImeis={knownImeis}
+              onDetected={handleScannedImei}
+              onCaptureFrame={(file) => processImageFiles([file])}
+              onClose={() => setIsScanning(false)}
+            />
+          )}
+
           <div className="relative">
             <textarea 
+              ref={searchInputRef}
               className={`w-full p-4 h-32 ${GLASS_INPUT} font-mono text-sm text-gray-800 dark:text-gray-200 resize-none mb-4`}
               placeholder="Paste IMEIs here..."
               value={bulkQuery}
               onChange={(e) => setBulkQuery(e.target.value)}
             />
-            {isProcessingImages && (
-              <div className="absolute inset-0 bg-white/50 dark:bg-black/50 backdrop-blur-sm rounded-xl flex flex-col items-center justify-center z-10">
-                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
-                <p className="mt-2 text-sm font-bold text-blue-600">AI Processing...</p>
-              </div>
-            )}
           </div>
 
+          <ImageQueuePanel
+            jobs={imageJobs}
+            onCancel={() => getImageQueue().cancel()}
+            onRetry={(ids) => getImageQueue().retry(ids)}
+            onClear={() => getImageQueue().clear()}
+          />
+
           <div className="flex flex-col sm:flex-row gap-3">
              {/* AI Image Button */}
             <div className="relative group flex-1">
@@ -777,7 +5919,6 @@ const App = () => {
                 accept="image/*" 
                 onChange={handleImageUpload} 
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
-                disabled={isProcessingImages}
               />
               <button className={`w-full py-3 ${GLASS_BUTTON_SECONDARY} flex items-center justify-center gap-2 border-blue-200 dark:border-blue-900`}>
                 <svg className="w-5 h-5 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
@@ -785,6 +5926,14 @@ const App = () => {
               </button>
             </div>
 
+            <button
+              onClick={() => setIsScanning(!isScanning)}
+              className={`flex-1 py-3 ${GLASS_BUTTON_SECONDARY} flex items-center justify-center gap-2 border-blue-200 dark:border-blue-900`}
+            >
+              <svg className="w-5 h-5 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7V5a1 1 0 011-1h2M17 4h2a1 1 0 011 1v2M20 17v2a1 1 0 01-1 1h-2M7 20H5a1 1 0 01-1-1v-2M7 8v8M10 8v8M13 8v8M17 8v8" /></svg>
+              <span className="font-bold text-blue-600 dark:text-blue-400">{isScanning ? 'Stop Scanning' : 'Scan Barcodes'}</span>
+            </button>
+
             <button 
               onClick={handleBulkSearch}
               className={`flex-[2] py-3 ${GLASS_BUTTON_PRIMARY} font-bold`}
@@ -800,17 +5949,55 @@ const App = () => {
           </div>
         </div>
 
+        {/* Filters & Sort */}
+        {showAnalytics && (
+          <AnalyticsPanel
+            devices={searchResults || devices}
+            filters={filters}
+            onChange={setFilters}
+            groupRules={groupRules}
+          />
+        )}
+
+        <FilterBar
+          devices={searchResults || devices}
+          filters={filters}
+          onChange={setFilters}
+          sort={sort}
+          onSortChange={setSort}
+          catalog={fieldCatalog}
+          resultCount={(filteredResults || filteredDevices).length}
+        />
+
+        <ValuationPanel
+          groupLines={valuation.groups}
+          sectionLines={valuation.sections}
+          lot={valuation.lot}
+          templateName={activeTemplate.name}
+          staleGroups={staleTemplateGroups}
+          onEditPrices={() => setShowPriceTable(true)}
+        />
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button onClick={() => setShowGroupRules(true)} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>
+            Carrier Groups
+          </button>
+          <button onClick={() => setShowFieldPicker(true)} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>
+            Card Fields{cardFieldKeys.length > 0 ? ` (${cardFieldKeys.length})` : ''}
+          </button>
+        </div>
+
         {/* Results */}
-        {searchResults ? (
+        {filteredResults ? (
           <div className="animate-fade-in space-y-4">
-            {searchResults.length === 0 ? (
+            {filteredResults.length === 0 ? (
               <div className={`${GLASS_CARD} p-12 text-center`}>
                 <p className="text-gray-500 text-lg">No devices found matching your inputs.</p>
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {searchResults.map(device => (
-                  <DeviceCard key={device.id} device={device} onCopy={copyToClipboard} onViewDetails={setSelectedDevice} />
+                {filteredResults.map(device => (
+                  <DeviceCard key={device.id} device={device} onCopy={copyToClipboard} onViewDetails={setSelectedDevice} extraFields={cardFieldKeys} groupColor={getGroupColor(device.group, groupRules)} receivedAt={reconciliation?.received[device.imei]} onAnnotate={sharedView ? undefined : updateAnnotation} knownTags={annotationSuggestions.tags} knownBuyers={annotationSuggestions.buyers} />
                 ))}
               </div>
             )}
@@ -830,23 +6017,34 @@ const App = () => {
                          <svg className="w-4 h-4 text-gray-600 dark:text-gray-300" fill="currentColor" viewBox="0 0 20 20"><path d="M6 6L14 10L6 14V6Z" /></svg>
                       </div>
                       <div>
-                        <h3 className="font-bold text-lg text-gray-900 dark:text-white">{group.name}</h3>
+                        <h3 className="font-bold text-lg text-gray-900 dark:text-white flex items-center gap-2">
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: group.color }}></span>
+                          {group.name}
+                        </h3>
                         <p className="text-xs text-gray-500 dark:text-gray-400">{group.count} devices</p>
                       </div>
                     </div>
-                    <button 
-                      onClick={(e) => { e.stopPropagation(); copyGroup(group.name); }}
-                      className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}
-                    >
-                      Copy All
-                    </button>
+                    <div className="flex gap-2">
+                      <button 
+                        onClick={(e) => { e.stopPropagation(); setDataExport({ scope: group.name, devices: group.devices }); }}
+                        className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}
+                      >
+                        Download
+                      </button>
+                      <button 
+                        onClick={(e) => { e.stopPropagation(); copyGroup(group.name); }}
+                        className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}
+                      >
+                        Copy All
+                      </button>
+                    </div>
                   </div>
                   
                   {openGroups[group.name] && (
                     <div className="p-4 border-t border-gray-200/20 bg-gray-50/30 dark:bg-black/20">
                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                         {group.devices.map(device => (
-                          <DeviceCard key={device.id} device={device} onCopy={copyToClipboard} onViewDetails={setSelectedDevice} />
+                          <DeviceCard key={device.id} device={device} onCopy={copyToClipboard} onViewDetails={setSelectedDevice} extraFields={cardFieldKeys} groupColor={getGroupColor(device.group, groupRules)} receivedAt={reconciliation?.received[device.imei]} onAnnotate={sharedView ? undefined : updateAnnotation} knownTags={annotationSuggestions.tags} knownBuyers={annotationSuggestions.buyers} />
                         ))}
                       </div>
                     </div>
@@ -871,6 +6069,7 @@ const App = () => {
       {manualFixQueue.length > 0 && (
         <ManualFixModal 
           failedImage={manualFixQueue[0]} 
+          devices={devices}
           onFix={handleManualFix} 
           onSkip={handleSkipFix} 
         />
@@ -890,10 +6089,36 @@ const App = () => {
         </div>
       </Modal>
 
+      <Modal isOpen={showShortcuts} onClose={() => setShowShortcuts(false)} title="⌨️ Keyboard Shortcuts">
+        <div className="space-y-2">
+          {KEYBOARD_SHORTCUTS.map(s => (
+            <div key={s.label} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-gray-700 dark:text-gray-300">{s.label}</span>
+              <span className="flex gap-1 shrink-0">
+                {s.keys.map(k => (
+                  <kbd key={k} className="min-w-[1.75rem] text-center px-1.5 py-0.5 rounded-md border border-gray-300 dark:border-gray-600 bg-white/60 dark:bg-white/10 font-mono text-xs font-bold text-gray-800 dark:text-gray-200">{k}</kbd>
+                ))}
+              </span>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">Shortcuts are ignored while typing in a field. Scanners type into the focused box, so click the scan input if it shows "Click to scan".</p>
+      </Modal>
+
       <Modal isOpen={notFoundQueries.length > 0} onClose={() => setNotFoundQueries([])} title="❌ Not Found">
         <div className="bg-gray-100/50 dark:bg-black/30 p-4 rounded-xl font-mono text-sm max-h-60 overflow-y-auto mb-4 border border-gray-200/50 dark:border-gray-700/50 dark:text-gray-300">
           {notFoundQueries.map((q, i) => (
-            <div key={i} className="text-red-500 border-b border-gray-200/10 py-1">{q}</div>
+            <div key={i} className="border-b border-gray-200/10 py-1">
+              <div className="text-red-500 flex justify-between gap-2">
+                <span>{q}</span>
+                {invalidImeiQueries.includes(q) && (
+                  <span className="text-[10px] font-sans font-bold bg-rose-100 text-rose-700 px-2 py-0.5 rounded-md self-center">BAD CHECK DIGIT</span>
+                )}
+              </div>
+              <div className="font-sans mt-1">
+                <NearMatchChoices query={q} matches={notFoundSuggestions[q] || []} onPick={(imei) => acceptNearMatch(q, imei)} />
+              </div>
+            </div>
           ))}
         </div>
          <button onClick={() => { copyToClipboard(notFoundQueries.join('\n')); alert("Copied!"); }} className={`w-full py-3 ${GLASS_BUTTON_SECONDARY} font-bold`}>
@@ -901,7 +6126,91 @@ const App = () => {
          </button>
       </Modal>
 
+      <Modal isOpen={!!discrepancyReport} onClose={() => setShowDiscrepancyReport(false)} title="📦 Discrepancy Report">
+        {discrepancyReport && reconciliation && (
+          <div className="space-y-4">
+            {([
+              ['Missing From Box', discrepancyReport.missing.map(d => ({ key: d.id, imei: d.imei, label: cleanModel(d.modelDesc), group: d.group })), 'bg-amber-500/10 border-amber-500/20'],
+              ['Extra In Box', discrepancyReport.extra.map(s => ({ key: s.value, imei: s.value, label: `Scanned ${formatCheckInTime(s.at)}`, group: '' })), 'bg-red-500/10 border-red-500/20'],
+              ['iCloud Locked Received', discrepancyReport.lockedReceived.map(d => ({ key: d.id, imei: d.imei, label: cleanModel(d.modelDesc), group: d.group })), 'bg-rose-500/10 border-rose-500/20']
+            ] as [string, { key: string, imei: string, label: string, group: string }[], string][]).map(([heading, rows, tone]) => (
+              <div key={heading}>
+                <h4 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 mb-2">{heading} ({rows.length})</h4>
+                {rows.length > 0 ? (
+                  <div className={`border p-2 rounded-xl max-h-48 overflow-y-auto space-y-1 ${tone}`}>
+                    {rows.map(r => (
+                      <div key={r.key} className="text-xs flex justify-between gap-3 dark:text-gray-200">
+                        <span className="font-mono">{r.imei}</span>
+                        <span className="truncate flex-1 text-right">{r.label}{r.group && <span className="text-gray-400"> · {r.group}</span>}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-400">None</p>
+                )}
+              </div>
+            ))}
+            <div className="flex gap-3 pt-2">
+              <button onClick={() => { copyToClipboard(discrepancyReportText(discrepancyReport, reconciliation)); alert("Copied!"); }} className={`flex-1 py-3 ${GLASS_BUTTON_SECONDARY} font-bold`}>
+                Copy Report
+              </button>
+              <button onClick={downloadDiscrepancyReport} className={`flex-1 py-3 ${GLASS_BUTTON_PRIMARY} font-bold`}>
+                Download CSV
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!mergeReport} onClose={() => setMergeReport(null)} title="🔀 Merge Report">
+        {mergeReport && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {mergeReport.duplicateCount} duplicate IMEI{mergeReport.duplicateCount === 1 ? '' : 's'} merged. The first file's values were kept.
+            </p>
+            {mergeReport.conflicts.length > 0 ? (
+              <div className="space-y-3">
+                {mergeReport.conflicts.map((c, i) => (
+                  <div key={i} className="bg-amber-500/10 border border-amber-500/20 p-3 rounded-xl">
+                    <div className="flex justify-between items-center">
+                      <span className="font-mono text-sm font-bold dark:text-white">{c.imei}</span>
+                      <span className="text-xs font-bold bg-amber-100 text-amber-700 px-2 py-1 rounded-md">{c.field}</span>
+                    </div>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 block mb-2">{c.modelDesc}</span>
+                    {c.values.map((v, j) => (
+                      <div key={j} className="text-xs flex justify-between gap-2 dark:text-gray-300">
+                        <span className="truncate text-gray-500 dark:text-gray-400">{v.sourceFile}</span>
+                        <span className="font-bold">{v.value || '—'}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-green-600 dark:text-green-400 font-bold">No conflicting values.</p>
+            )}
+          </div>
+        )}
+      </Modal>
+
       <Modal isOpen={showExportModal} onClose={() => setShowExportModal(false)} title="Export Results">
+         <div className="flex gap-2 mb-4">
+           <select
+             value={activeTemplate.id}
+             onChange={(e) => setActiveTemplateId(e.target.value)}
+             className={`flex-1 px-3 py-2 ${GLASS_INPUT} text-sm dark:text-gray-200`}
+           >
+             {exportTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+           </select>
+           <button onClick={() => setShowTemplateEditor(true)} className={`px-4 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>
+             Edit Templates
+           </button>
+         </div>
+         {staleTemplateGroups.length > 0 && (
+           <p className="text-xs text-red-600 dark:text-red-300 bg-red-500/10 border border-red-500/20 px-3 py-2 rounded-lg mb-4">
+             This template sorts by groups that no longer exist ({staleTemplateGroups.join(', ')}), so some devices may be in the wrong section. Fix them under Edit Templates.
+           </p>
+         )}
          <div className="relative">
            <textarea 
              className={`w-full h-96 p-4 ${GLASS_INPUT} font-mono text-sm resize-none`}
@@ -914,11 +6223,147 @@ const App = () => {
          </div>
       </Modal>
 
+      <DataExportModal
+        isOpen={!!dataExport}
+        onClose={() => setDataExport(null)}
+        scope={dataExport?.scope || ''}
+        devices={dataExport?.devices || []}
+        catalog={fieldCatalog}
+        columns={exportColumns}
+        onColumnsChange={setExportColumns}
+        baseName={session?.name || 'sickw-order'}
+      />
+
+      <Modal isOpen={showTemplateEditor} onClose={() => setShowTemplateEditor(false)} title="Export Templates">
+        <div className="flex flex-wrap gap-2 mb-5">
+          <select
+            value={activeTemplate.id}
+            onChange={(e) => setActiveTemplateId(e.target.value)}
+            className={`flex-1 px-3 py-2 ${GLASS_INPUT} text-sm dark:text-gray-200`}
+          >
+            {exportTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          <button onClick={duplicateTemplate} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>Duplicate</button>
+          <button onClick={deleteTemplate} disabled={exportTemplates.length <= 1} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold text-red-500 disabled:opacity-30`}>Delete</button>
+          <button onClick={restoreDefaultTemplate} className={`px-3 py-2 ${GLASS_BUTTON_SECONDARY} text-xs font-bold`}>Restore Default</button>
+        </div>
+        <ExportTemplateEditor template={activeTemplate} catalog={fieldCatalog} groupNames={groupNames} onChange={updateActiveTemplate} />
+      </Modal>
+
+      {sickwChecksModal}
+      {updateBanner}
+
+      {shortcutNotice && (
+        <div className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-[70] ${GLASS_CARD} px-5 py-3 text-sm font-bold text-gray-800 dark:text-white`}>
+          {shortcutNotice}
+        </div>
+      )}
+
+      <Modal isOpen={showShare} onClose={() => setShowShare(false)} title="Share Order">
+        <ShareOrderPanel
+          name={session?.name || 'Untitled Order'}
+          devices={devices}
+          annotations={annotations}
+          onDownloadBundle={downloadSessionBundle}
+          onCopy={copyToClipboard}
+        />
+      </Modal>
+
+      <Modal isOpen={showSettings} onClose={() => setShowSettings(false)} title="Settings">
+        <h4 className="text-sm font-bold text-gray-700 dark:text-gray-200 mb-2">Photo IMEI Extraction</h4>
+        <div className="space-y-2">
+          {EXTRACTION_PROVIDERS.map(p => (
+            <label key={p.id} className={`flex items-center gap-3 px-3 py-2 ${GLASS_INPUT} cursor-pointer text-sm dark:text-gray-200`}>
+              <input
+                type="radio"
+                name="extraction-provider"
+                checked={extractionProviderId === p.id}
+                onChange={() => setExtractionProviderId(p.id)}
+              />
+              <span className="flex-1">{p.label}</span>
+              {!p.isAvailable() && <span className="text-xs text-amber-600 dark:text-amber-400">Unavailable</span>}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">On-device OCR runs entirely in the browser and works offline. Gemini is called through the app server and needs a connection; if it fails, photos are read with on-device OCR instead.</p>
+      </Modal>
+
+      <Modal isOpen={showCompare} onClose={() => setShowCompare(false)} title="Compare Orders">
+        {comparison ? (
+          <OrderDiffView
+            diffs={orderDiffs}
+            label={comparison.label}
+            baseName={`${session?.name || 'sickw-order'} changes`}
+            onCopy={copyToClipboard}
+            onChangeBase={() => setComparison(null)}
+          />
+        ) : (
+          <ComparePicker currentId={session?.id} onPick={setComparison} />
+        )}
+      </Modal>
+
+      <Modal isOpen={showPriceTable} onClose={() => setShowPriceTable(false)} title="Price Table">
+        <PriceTableEditor table={priceTable} onChange={setPriceTable} devices={devices} groupNames={groupNames} />
+      </Modal>
+
+      <Modal isOpen={showGroupRules} onClose={() => setShowGroupRules(false)} title="Carrier Groups">
+        <GroupRulesEditor rules={groupRules} onChange={setGroupRules} onRename={renameGroupInTemplates} />
+      </Modal>
+
+      <Modal isOpen={showFieldPicker} onClose={() => setShowFieldPicker(false)} title="Card Fields">
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">Checked fields are shown on each device card. Use {"{fieldKey}"} placeholders in an export template to add them to the text export.</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {fieldCatalog.map(f => (
+            <label key={f.key} className={`flex items-center gap-3 px-3 py-2 ${GLASS_INPUT} cursor-pointer text-sm dark:text-gray-200`}>
+              <input
+                type="checkbox"
+                checked={cardFieldKeys.includes(f.key)}
+                onChange={(e) => setCardFieldKeys(prev => e.target.checked ? [...prev, f.key] : prev.filter(k => k !== f.key))}
+              />
+              {f.label}
+            </label>
+          ))}
+        </div>
+      </Modal>
+
       <Modal isOpen={!!selectedDevice} onClose={() => setSelectedDevice(null)} title="Device Details">
          <div className="relative">
-           <div className={`p-4 rounded-xl font-mono text-sm whitespace-pre-wrap dark:text-gray-300 bg-gray-50/50 dark:bg-black/30 border border-gray-200/50 dark:border-gray-700`}>
-             {selectedDevice ? getCleanDeviceDetails(selectedDevice.rawText) : ''}
-           </div>
+           {selectedDevice && (
+             <div className="flex gap-2 mb-3 text-xs font-bold">
+               <span className="px-2 py-1 rounded-md bg-gray-100/60 dark:bg-white/10 dark:text-gray-300">TAC {getTac(selectedDevice.imei)}</span>
+               {isValidImei(selectedDevice.imei)
+                 ? <span className="px-2 py-1 rounded-md bg-green-100/60 text-green-700">Check Digit OK</span>
+                 : <span className="px-2 py-1 rounded-md bg-rose-100/60 text-rose-700">Bad Check Digit</span>}
+               {selectedValuation?.price == null
+                 ? <span className="px-2 py-1 rounded-md bg-gray-100/60 dark:bg-white/10 text-gray-500">No Price</span>
+                 : <span className="px-2 py-1 rounded-md bg-blue-100/60 text-blue-700">{formatMoney(selectedValuation.price)}{selectedValuation.source === 'override' ? ' (override)' : ''}</span>}
+             </div>
+           )}
+           {selectedDevice && selectedDevice.fields && Object.keys(selectedDevice.fields).length > 0 ? (
+             <div className="rounded-xl text-sm bg-gray-50/50 dark:bg-black/30 border border-gray-200/50 dark:border-gray-700 divide-y divide-gray-200/50 dark:divide-gray-700/50">
+               {(Object.entries(selectedDevice.fields) as [string, DeviceField][]).map(([key, field]) => (
+                 <div key={key} className="px-4 py-2 flex justify-between gap-4">
+                   <span className="text-gray-500 dark:text-gray-400">{field.label}</span>
+                   <span className="font-mono text-right dark:text-gray-200 break-all">{formatFieldValue(field)}</span>
+                 </div>
+               ))}
+             </div>
+           ) : (
+             <div className={`p-4 rounded-xl font-mono text-sm whitespace-pre-wrap dark:text-gray-300 bg-gray-50/50 dark:bg-black/30 border border-gray-200/50 dark:border-gray-700`}>
+               {selectedDevice ? getCleanDeviceDetails(selectedDevice.rawText) : ''}
+             </div>
+           )}
+           {selectedDevice && !sharedView && (
+             <div className="mt-4">
+               <h4 className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 mb-2">Our Notes</h4>
+               <AnnotationEditor
+                 annotation={annotations[selectedDevice.imei]}
+                 onChange={(patch) => updateAnnotation(selectedDevice.imei, patch)}
+                 knownTags={annotationSuggestions.tags}
+                 knownBuyers={annotationSuggestions.buyers}
+               />
+             </div>
+           )}
            <div className="flex justify-end mt-4">
              <button onClick={() => { if (selectedDevice) { copyToClipboard(getCleanDeviceDetails(selectedDevice.rawText)); alert("Copied!"); } }} className={`px-4 py-2 ${GLASS_BUTTON_PRIMARY} text-sm font-bold`}>
                Copy Details
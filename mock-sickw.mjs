@@ -0,0 +1,99 @@
+// Local stand-in for the Sickw API (api.php), for developing the in-app checks without spending credit.
+//
+//   node mock-sickw.mjs   then set the API URL in "Run Checks" to http://localhost:8788/api.php
+//
+// Any key works except "bad". Results are derived from the IMEI, so re-checking gives the same answer.
+// MOCK_FAIL_RATE (default 0.05) of checks fail, and MOCK_RATE_LIMIT_RATE (default 0.05) answer 429.
+import http from 'http';
+
+const PORT = Number(process.env.PORT) || 8788;
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE ?? 0.05);
+const RATE_LIMIT_RATE = Number(process.env.MOCK_RATE_LIMIT_RATE ?? 0.05);
+
+const SERVICES = [
+  { service: '3', name: 'iCloud FMI Status', price: '0.02' },
+  { service: '30', name: 'Apple Basic Info', price: '0.05' },
+  { service: '61', name: 'Apple Carrier & SimLock', price: '0.10' },
+  { service: '71', name: 'Apple Full Info (Carrier, FMI, Warranty)', price: '0.16' }
+];
+
+const MODELS = ['iPhone 13 128GB Midnight', 'iPhone 14 Pro 256GB Deep Purple', 'iPhone 12 64GB Blue', 'iPhone 15 128GB Black', 'iPhone 11 64GB White'];
+const CARRIERS = [
+  ['Unlocked', 'Unlocked'],
+  ['US T-Mobile/MetroPCS Locked Policy', 'Locked'],
+  ['US AT&T Locked Policy', 'Locked'],
+  ['US Verizon Unlocked Policy', 'Unlocked'],
+  ['US Sprint Locked Activation Policy', 'Locked']
+];
+
+let balance = 10;
+
+const digitAt = (imei, i) => Number(imei[i]) || 0;
+
+const buildResult = (imei) => {
+  const [carrier, simLock] = CARRIERS[digitAt(imei, 12) % CARRIERS.length];
+  const icloud = digitAt(imei, 13) % 3 === 0 ? '<font color="red">ON</font>' : '<font color="green">OFF</font>';
+  const activated = digitAt(imei, 11) % 4 !== 0;
+  const year = 2021 + (digitAt(imei, 10) % 4);
+  const month = String(1 + (digitAt(imei, 9) % 12)).padStart(2, '0');
+  return [
+    `Model Description: ${MODELS[digitAt(imei, 8) % MODELS.length]}`,
+    `IMEI: ${imei}`,
+    `Serial Number: F${imei.slice(5, 14)}X`,
+    `Warranty Status: ${activated ? 'Out Of Warranty' : 'Limited Warranty'}`,
+    `Estimated Purchase Date: ${activated ? `${year}-${month}-15` : 'Not Activated'}`,
+    `Activation Status: ${activated ? 'Activated' : 'Not Activated'}`,
+    `iCloud Lock: ${icloud}`,
+    `Locked Carrier: ${carrier}`,
+    `Sim-Lock Status: ${simLock}`
+  ].join('<br>');
+};
+
+const handle = (params) => {
+  if (!params.get('key') || params.get('key') === 'bad') return { status: 'error', result: 'Invalid API Key' };
+
+  const action = params.get('action');
+  if (action === 'balance') return balance.toFixed(2);
+  if (action === 'services') return SERVICES;
+
+  const imei = params.get('imei') || '';
+  const service = SERVICES.find(s => s.service === params.get('service'));
+  if (!service) return { status: 'error', result: 'Wrong service ID' };
+  if (!/^\d{15}$/.test(imei)) return { status: 'error', result: 'Invalid IMEI or SN' };
+  if (balance < Number(service.price)) return { status: 'error', result: 'Insufficient balance' };
+  if (Math.random() < FAIL_RATE) return { status: 'error', result: 'Service temporarily unavailable, try again' };
+
+  balance -= Number(service.price);
+  return {
+    status: 'success',
+    imei,
+    id: String(Date.now()),
+    price: service.price,
+    balance: balance.toFixed(2),
+    result: buildResult(imei)
+  };
+};
+
+http.createServer((req, res) => {
+  const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+  const headers = { 'Access-Control-Allow-Origin': '*' };
+
+  if (pathname !== '/api.php') {
+    res.writeHead(404, headers);
+    return res.end('Not found');
+  }
+  if (searchParams.has('imei') && Math.random() < RATE_LIMIT_RATE) {
+    res.writeHead(429, headers);
+    return res.end('Too many requests');
+  }
+
+  // Real-looking latency so the queue's concurrency is visible
+  setTimeout(() => {
+    const body = handle(searchParams);
+    res.writeHead(200, { ...headers, 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    console.log(`${new Date().toISOString()} ${searchParams.get('action') || `check ${searchParams.get('imei')}`} → ${typeof body === 'string' ? body : body.status || 'ok'}`);
+  }, 300 + Math.random() * 700);
+}).listen(PORT, () => {
+  console.log(`Mock Sickw API on http://localhost:${PORT}/api.php (balance ${balance.toFixed(2)})`);
+});
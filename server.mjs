@@ -0,0 +1,272 @@
+// Serves the built app and reads photos with Gemini server-side, so the API key never reaches the browser.
+//
+//   node server.mjs          uses GEMINI_API_KEY from the environment or .env.local
+//   node server.mjs --mock   uses a local mock model instead (no key, no network)
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { GoogleGenAI, Type } from '@google/genai';
+
+const ROOT = path.dirname(fileURLToPath(import.meta.url));
+
+try {
+  process.loadEnvFile(path.join(ROOT, '.env.local'));
+} catch {
+  // No .env.local; rely on the real environment
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const BASE_PATH = '/Sickw123/'; // must match `base` in vite.config.ts
+const DIST_DIR = path.join(ROOT, 'dist');
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 30;
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const USE_MOCK = process.argv.includes('--mock') || process.env.EXTRACTION_MODEL === 'mock';
+const MOCK_DELAY_MS = Number(process.env.MOCK_DELAY_MS) || 300;
+const SICKW_API_URL = process.env.SICKW_API_URL || 'https://sickw.com/api.php';
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// --- EXTRACTION MODELS ---
+
+const EXTRACTION_PROMPT = `Find every device identifier printed in this image. It may show one label or a stack of boxes.
+For each IMEI (15 digits, labelled IMEI or IMEI 1), IMEI2 (labelled IMEI2 or IMEI 2) and serial number (labelled Serial No., S/N or (S)), return:
+- kind: "imei", "imei2" or "serial"
+- value: the digits or characters exactly as printed, without spaces
+- box_2d: [ymin, xmin, ymax, xmax] around the value, scaled 0-1000
+- confidence: 0-1, how sure you are every character is right
+Return an empty list if nothing is legible. Never guess digits you cannot see.`;
+
+const EXTRACTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    identifiers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ['imei', 'imei2', 'serial'] },
+          value: { type: Type.STRING },
+          box_2d: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+          confidence: { type: Type.NUMBER }
+        },
+        required: ['kind', 'value', 'confidence']
+      }
+    }
+  },
+  required: ['identifiers']
+};
+
+const geminiModel = {
+  name: 'gemini',
+  extract: async ({ mimeType, data }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-3-pro-preview',
+        contents: { parts: [{ inlineData: { mimeType, data } }, { text: EXTRACTION_PROMPT }] },
+        config: { responseMimeType: 'application/json', responseSchema: EXTRACTION_SCHEMA }
+      });
+      return JSON.parse(response.text || '{}').identifiers || [];
+    } catch (error) {
+      // Pass quota errors through as 429 so the client backs off instead of falling back to OCR
+      if (/\b429\b|RESOURCE_EXHAUSTED/i.test(String(error?.message || error))) throw new HttpError(429, 'Model quota exceeded');
+      throw new HttpError(502, `Model call failed: ${error?.message || error}`);
+    }
+  }
+};
+
+// Stands in for Gemini in local testing: "reads" the 15-digit runs in the file name, e.g. box-356938035643809.jpg
+const mockModel = {
+  name: 'mock',
+  extract: async ({ fileName }) => {
+    await new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS));
+    const values = String(fileName || '').match(/(?<!\d)\d{15}(?!\d)/g) || [];
+    return values.map((value, i) => ({
+      kind: i === 1 ? 'imei2' : 'imei',
+      value,
+      box_2d: [100 + i * 150, 100, 200 + i * 150, 700],
+      confidence: 0.95
+    }));
+  }
+};
+
+const model = USE_MOCK ? mockModel : geminiModel;
+
+// --- RATE LIMITING ---
+
+// Token bucket per client: RATE_LIMIT_PER_MINUTE requests, refilled continuously
+const buckets = new Map();
+
+const takeToken = (clientId) => {
+  const now = Date.now();
+  const bucket = buckets.get(clientId) || { tokens: RATE_LIMIT_PER_MINUTE, updatedAt: now };
+  bucket.tokens = Math.min(RATE_LIMIT_PER_MINUTE, bucket.tokens + ((now - bucket.updatedAt) / 60000) * RATE_LIMIT_PER_MINUTE);
+  bucket.updatedAt = now;
+  buckets.set(clientId, bucket);
+  if (bucket.tokens < 1) return Math.ceil(((1 - bucket.tokens) / RATE_LIMIT_PER_MINUTE) * 60);
+  bucket.tokens -= 1;
+  return 0;
+};
+
+// Full buckets carry no state worth keeping
+setInterval(() => {
+  const now = Date.now();
+  for (const [clientId, bucket] of buckets) {
+    if (now - bucket.updatedAt > 60000) buckets.delete(clientId);
+  }
+}, 60000).unref();
+
+const getClientId = (req) => {
+  const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+// --- HANDLERS ---
+
+const readJsonBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Image is too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Body must be JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const handleExtract = async (req, res, log) => {
+  const retryAfter = takeToken(log.client);
+  if (retryAfter > 0) {
+    return sendJson(res, 429, { error: 'Too many requests, slow down' }, { 'Retry-After': String(retryAfter) });
+  }
+  const body = await readJsonBody(req);
+  if (typeof body.data !== 'string' || !/^image\//.test(String(body.mimeType))) {
+    throw new HttpError(400, 'Expected { mimeType: "image/...", data: <base64> }');
+  }
+  const identifiers = await model.extract(body);
+  log.detail = `model=${model.name} ids=${identifiers.length}`;
+  sendJson(res, 200, { identifiers });
+};
+
+// Everything the app sends to api.php; anything else is dropped so this can't be used as a general relay
+const SICKW_PARAMS = ['key', 'imei', 'service', 'action', 'format'];
+
+// sickw.com doesn't allow browser requests, so IMEI checks pass through here with the user's own key
+const handleSickw = async (req, res, log) => {
+  // Own bucket, so a batch of checks doesn't use up the client's photo extractions
+  const retryAfter = takeToken(`sickw:${log.client}`);
+  if (retryAfter > 0) {
+    return sendJson(res, 429, { error: 'Too many requests, slow down' }, { 'Retry-After': String(retryAfter) });
+  }
+  const { searchParams } = new URL(req.url || '/', 'http://localhost');
+  const forwarded = new URLSearchParams();
+  SICKW_PARAMS.forEach(name => {
+    const value = searchParams.get(name);
+    if (value !== null) forwarded.set(name, value);
+  });
+  let upstream;
+  try {
+    upstream = await fetch(`${SICKW_API_URL}?${forwarded}`);
+  } catch (error) {
+    throw new HttpError(502, `Sickw API unreachable: ${error?.message || error}`);
+  }
+  log.detail = `upstream=${upstream.status}`;
+  res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'text/plain' });
+  res.end(await upstream.text());
+};
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm'
+};
+
+const serveStatic = (req, res, pathname) => {
+  if (!pathname.startsWith(BASE_PATH)) {
+    res.writeHead(302, { Location: BASE_PATH });
+    return res.end();
+  }
+  let relative;
+  try {
+    relative = decodeURIComponent(pathname.slice(BASE_PATH.length)) || 'index.html';
+  } catch {
+    throw new HttpError(400, 'Bad request path');
+  }
+  let filePath = path.join(DIST_DIR, relative);
+  if (!filePath.startsWith(DIST_DIR + path.sep)) throw new HttpError(403, 'Forbidden');
+  // Unknown paths get the app shell
+  if (!fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) filePath = path.join(DIST_DIR, 'index.html');
+  if (!fs.existsSync(filePath)) throw new HttpError(404, 'dist/ not found, run `npm run build` first');
+
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream',
+    // Vite fingerprints everything under assets/
+    'Cache-Control': relative.startsWith('assets/') ? 'public, max-age=31536000, immutable' : 'no-cache'
+  });
+  if (req.method === 'HEAD') return res.end();
+  fs.createReadStream(filePath).pipe(res);
+};
+
+// --- SERVER ---
+
+const server = http.createServer(async (req, res) => {
+  const started = Date.now();
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const log = { client: getClientId(req), detail: '' };
+
+  res.on('finish', () => {
+    console.log(`${new Date().toISOString()} ${log.client} ${req.method} ${pathname} ${res.statusCode} ${Date.now() - started}ms ${log.detail}`.trim());
+  });
+
+  try {
+    if (pathname === '/api/extract' && req.method === 'POST') return await handleExtract(req, res, log);
+    if (pathname === '/api/sickw' && req.method === 'GET') return await handleSickw(req, res, log);
+    if (pathname === '/api/health' && req.method === 'GET') return sendJson(res, 200, { model: model.name });
+    if (pathname.startsWith('/api/')) throw new HttpError(404, 'Not found');
+    if (req.method !== 'GET' && req.method !== 'HEAD') throw new HttpError(405, 'Method not allowed');
+    serveStatic(req, res, pathname);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(error);
+    log.detail = error?.message || String(error);
+    if (!res.headersSent) sendJson(res, status, { error: status === 500 ? 'Internal error' : error.message });
+  }
+});
+
+if (!USE_MOCK && !process.env.GEMINI_API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local, or run with --mock to use the local mock model.');
+  process.exit(1);
+}
+
+server.listen(PORT, () => {
+  console.log(`Serving ${BASE_PATH} on http://localhost:${PORT} (model: ${model.name}, ${RATE_LIMIT_PER_MINUTE} req/min per client)`);
+});
@@ -0,0 +1,108 @@
+// Service worker: keeps the app usable offline and receives files shared from other apps.
+// Built by the service-worker plugin in vite.config.ts, which fills in __BUILD_VERSION__ and __PRECACHE__.
+
+const VERSION = '__BUILD_VERSION__';
+const PRECACHE = `sickw-app-${VERSION}`;
+const RUNTIME = `sickw-runtime-${VERSION}`;
+const SHARE_CACHE = 'sickw-share'; // Read by the page on /?share-target, see readSharedFiles in index.tsx
+
+const SCOPE = new URL(self.registration.scope).pathname;
+const APP_SHELL = `${SCOPE}index.html`;
+const PRECACHE_URLS = self.__PRECACHE__.map(file => `${SCOPE}${file}`);
+
+// Loaded from CDNs by index.html; cached up front so styling works on the first offline launch.
+// These are the only runtime entries: opaque responses take a lot of storage quota, so nothing else is collected
+const CDN_URLS = ['https://cdn.tailwindcss.com/']; // As request.url spells them
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(PRECACHE);
+    await cache.addAll(PRECACHE_URLS);
+    const runtime = await caches.open(RUNTIME);
+    await Promise.all(CDN_URLS.map(async url => {
+      try {
+        await runtime.put(url, await fetch(url, { mode: 'no-cors' }));
+      } catch {
+        // Offline while updating: carry over the previous version's copy, or cache on first use
+        const previous = await caches.match(url);
+        if (previous) await runtime.put(url, previous);
+      }
+    }));
+  })());
+  // No skipWaiting here: the page asks the user first, then posts SKIP_WAITING
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    // Older versions' caches, including the unversioned runtime cache of earlier builds
+    const stale = keys.filter(key => key.startsWith('sickw-') && key !== PRECACHE && key !== RUNTIME && key !== SHARE_CACHE);
+    await Promise.all(stale.map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// The manifest's share_target posts files here; they wait in a cache until the page picks them up
+const receiveShare = async (request) => {
+  const form = await request.formData();
+  const files = form.getAll('files').filter(f => f instanceof File);
+  const cache = await caches.open(SHARE_CACHE);
+  await Promise.all(files.map((file, i) => cache.put(
+    `${SCOPE}shared/${Date.now()}-${i}`,
+    new Response(file, { headers: { 'Content-Type': file.type || 'application/octet-stream', 'X-File-Name': encodeURIComponent(file.name) } })
+  )));
+  return Response.redirect(`${SCOPE}?share-target`, 303);
+};
+
+// How long a page load waits for the network before falling back to the cached shell
+const NAVIGATION_TIMEOUT_MS = 3000;
+
+// Pages: network first so a deploy shows up as soon as we're online, the cached shell otherwise.
+// On weak Wi-Fi a request can stall instead of failing, so a slow network counts as no network
+const handleNavigation = async (request) => {
+  const network = fetch(request);
+  const timeout = new Promise(resolve => setTimeout(resolve, NAVIGATION_TIMEOUT_MS, null));
+  try {
+    const response = await Promise.race([network, timeout]);
+    if (response) return response;
+  } catch {
+    // Offline; use the shell below
+  }
+  const shell = await caches.match(APP_SHELL);
+  return shell || network.catch(() => Response.error());
+};
+
+// Everything else: cache first. Built files are all precached, so only CDN_URLS are added here
+const handleAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (CDN_URLS.includes(request.url) && (response.ok || response.type === 'opaque')) {
+    const cache = await caches.open(RUNTIME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'POST' && url.pathname === `${SCOPE}share-target`) {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  // API calls (photo extraction, Sickw checks) and unknown origins always go straight to the network
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return;
+  if (url.origin !== self.location.origin && !CDN_URLS.includes(request.url)) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+  event.respondWith(handleAsset(request));
+});
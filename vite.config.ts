@@ -1,22 +1,77 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+// Tesseract's worker, WASM core and English data would otherwise come from cdn.jsdelivr.net on first use;
+// shipping them under ocr/ lets the service worker precache them so on-device OCR works on a phone that has never been online
+const OCR_ASSETS: Record<string, string> = {
+  'worker.min.js': 'tesseract.js/dist/worker.min.js',
+  // One is picked at runtime by the device's SIMD support
+  'tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'tesseract-core-relaxedsimd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+};
+
+const ocrAssetPath = (name: string) => path.resolve(__dirname, 'node_modules', OCR_ASSETS[name]);
+
+const ocrAssets = (): Plugin => ({
+  name: 'sickw-ocr-assets',
+  configureServer(server) {
+    const prefix = `${server.config.base}ocr/`;
+    server.middlewares.use((req, res, next) => {
+      const name = req.url?.startsWith(prefix) ? req.url.slice(prefix.length).split('?')[0] : '';
+      if (!OCR_ASSETS[name]) return next();
+      res.setHeader('Content-Type', name.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+      fs.createReadStream(ocrAssetPath(name)).pipe(res);
+    });
+  },
+  generateBundle() {
+    Object.keys(OCR_ASSETS).forEach(name => {
+      this.emitFile({ type: 'asset', fileName: `ocr/${name}`, source: fs.readFileSync(ocrAssetPath(name)) });
+    });
+  },
+});
+
+// Emits sw.js with this build's file list baked in, so the worker precaches exactly what was deployed
+// and a new deploy always changes the worker (which is what triggers the in-app update prompt)
+const serviceWorker = (): Plugin => ({
+  name: 'sickw-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const publicFiles = fs.readdirSync(path.resolve(__dirname, 'public'));
+    const files = [...Object.keys(bundle), ...publicFiles].sort();
+    const hash = createHash('sha256');
+    files.forEach(file => {
+      const output = bundle[file];
+      hash.update(file);
+      if (output?.type === 'asset') hash.update(output.source);
+      else if (!output) hash.update(fs.readFileSync(path.resolve(__dirname, 'public', file)));
+    });
+    const version = hash.digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+      .replace("'__BUILD_VERSION__'", JSON.stringify(version))
+      .replace('self.__PRECACHE__', JSON.stringify(files));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
+export default defineConfig(() => {
     return {
       // This ensures your assets (images/scripts) load correctly on GitHub
       base: '/Sickw123/', 
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Photo extraction runs on the app server (`npm start` or `npm run start:mock`)
+        proxy: {
+          '/api': 'http://localhost:8787',
+        },
       },
-      plugins: [react()],
-      define: {
-        // Vite uses 'import.meta.env' usually, but this maintains your current setup
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), ocrAssets(), serviceWorker()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),